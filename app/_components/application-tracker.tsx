@@ -0,0 +1,286 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Building, ChevronDown, ExternalLink, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { JobSkeleton } from "./job-skeleton"
+import { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, type ApplicationStage } from "@/lib/application-stages"
+import type { Application } from "@/lib/applications"
+
+export function ApplicationTracker() {
+    const [applications, setApplications] = useState<Application[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [dropStage, setDropStage] = useState<ApplicationStage | null>(null)
+
+    useEffect(() => {
+        const fetchApplications = async () => {
+            try {
+                const response = await fetch("/api/applications")
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+
+                const data = await response.json()
+                setApplications(data.applications || [])
+            } catch (err: unknown) {
+                console.error("Error fetching applications:", err)
+                setError("Failed to load applications")
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchApplications()
+    }, [])
+
+    // Record a stage change (or a note on the current stage) and show the saved result
+    const changeStage = async (application: Application, stage: ApplicationStage, note?: string) => {
+        if (stage === application.stage && !note) return
+
+        const previous = applications
+        setError(null)
+        setApplications((current) => current.map((item) => (item.id === application.id ? { ...item, stage } : item)))
+
+        try {
+            const response = await fetch(`/api/applications/${encodeURIComponent(application.id)}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ stage, note }),
+            })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            const data = await response.json()
+            setApplications((current) => current.map((item) => (item.id === application.id ? data.application : item)))
+        } catch (err: unknown) {
+            console.error("Error updating application:", err)
+            setApplications(previous)
+            setError("Failed to update the application")
+        }
+    }
+
+    const remove = async (application: Application) => {
+        setError(null)
+
+        try {
+            const response = await fetch(`/api/applications/${encodeURIComponent(application.id)}`, { method: "DELETE" })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            setApplications((current) => current.filter((item) => item.id !== application.id))
+        } catch (err: unknown) {
+            console.error("Error deleting application:", err)
+            setError("Failed to stop tracking the application")
+        }
+    }
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, stage: ApplicationStage) => {
+        e.preventDefault()
+        setDropStage(null)
+
+        const application = applications.find((item) => item.id === e.dataTransfer.getData("text/plain"))
+        if (application) {
+            changeStage(application, stage)
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div className="space-y-4">
+                {[1, 2].map((i) => (
+                    <JobSkeleton key={i} />
+                ))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && (
+                <Alert className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {applications.length === 0 ? (
+                <Card className="border-dashed">
+                    <CardContent className="pt-6 text-center text-muted-foreground">
+                        Use &quot;Track&quot; on a saved job to follow it through your application pipeline
+                    </CardContent>
+                </Card>
+            ) : (
+                <Tabs defaultValue="board">
+                    <TabsList>
+                        <TabsTrigger value="board">Board</TabsTrigger>
+                        <TabsTrigger value="list">List</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="board">
+                        <div className="flex gap-3 overflow-x-auto pb-4">
+                            {APPLICATION_STAGES.map((stage) => {
+                                const stageApplications = applications.filter((application) => application.stage === stage)
+
+                                return (
+                                    <div
+                                        key={stage}
+                                        className={`w-56 shrink-0 rounded-lg border p-2 space-y-2 transition-colors ${
+                                            dropStage === stage ? "border-primary bg-primary/5" : "bg-muted/40"
+                                        }`}
+                                        onDragOver={(e) => {
+                                            e.preventDefault()
+                                            setDropStage(stage)
+                                        }}
+                                        onDragLeave={() => setDropStage(null)}
+                                        onDrop={(e) => handleDrop(e, stage)}
+                                    >
+                                        <div className="flex justify-between items-center px-1">
+                                            <h3 className="text-sm font-semibold">{APPLICATION_STAGE_LABELS[stage]}</h3>
+                                            <Badge variant="secondary">{stageApplications.length}</Badge>
+                                        </div>
+                                        {stageApplications.map((application) => (
+                                            <Card
+                                                key={application.id}
+                                                draggable
+                                                onDragStart={(e) => e.dataTransfer.setData("text/plain", application.id)}
+                                                className="cursor-grab py-3 gap-1"
+                                            >
+                                                <CardHeader className="px-3">
+                                                    <CardTitle className="text-sm">{application.job.title}</CardTitle>
+                                                    <CardDescription className="flex items-center text-xs">
+                                                        <Building className="h-3 w-3 mr-1" />
+                                                        {application.job.company}
+                                                    </CardDescription>
+                                                </CardHeader>
+                                                <CardContent className="px-3 text-xs text-muted-foreground">
+                                                    Since {new Date(application.updatedAt).toLocaleDateString()}
+                                                </CardContent>
+                                            </Card>
+                                        ))}
+                                    </div>
+                                )
+                            })}
+                        </div>
+                    </TabsContent>
+
+                    <TabsContent value="list" className="space-y-4">
+                        {applications.map((application) => (
+                            <ApplicationRow
+                                key={application.id}
+                                application={application}
+                                onChangeStage={(stage, note) => changeStage(application, stage, note)}
+                                onRemove={() => remove(application)}
+                            />
+                        ))}
+                    </TabsContent>
+                </Tabs>
+            )}
+        </div>
+    )
+}
+
+interface ApplicationRowProps {
+    application: Application
+    onChangeStage: (stage: ApplicationStage, note?: string) => void
+    onRemove: () => void
+}
+
+function ApplicationRow({ application, onChangeStage, onRemove }: ApplicationRowProps) {
+    const [note, setNote] = useState("")
+
+    const handleAddNote = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault()
+        if (!note.trim()) return
+
+        onChangeStage(application.stage, note.trim())
+        setNote("")
+    }
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                        <CardTitle className="text-lg">
+                            <a href={application.job.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {application.job.title} <ExternalLink className="inline h-3.5 w-3.5" />
+                            </a>
+                        </CardTitle>
+                        <CardDescription className="flex items-center">
+                            <Building className="h-3.5 w-3.5 mr-1" />
+                            {application.job.company} · {application.job.location}
+                        </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                        <Select
+                            value={application.stage}
+                            onValueChange={(stage) => onChangeStage(stage as ApplicationStage)}
+                        >
+                            <SelectTrigger className="w-36" aria-label="Stage">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {APPLICATION_STAGES.map((stage) => (
+                                    <SelectItem key={stage} value={stage}>
+                                        {APPLICATION_STAGE_LABELS[stage]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="icon" title="Stop tracking" onClick={onRemove}>
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <form onSubmit={handleAddNote} className="flex gap-2">
+                    <Input
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Add a note, e.g. recruiter call on Friday"
+                    />
+                    <Button type="submit" variant="outline" disabled={!note.trim()}>
+                        Add Note
+                    </Button>
+                </form>
+
+                <Collapsible>
+                    <CollapsibleTrigger className="flex items-center text-sm text-muted-foreground hover:underline">
+                        History ({application.history.length})
+                        <ChevronDown className="h-3.5 w-3.5 ml-1" />
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                        <ol className="mt-2 space-y-1 text-sm">
+                            {[...application.history].reverse().map((change, index) => (
+                                <li key={index}>
+                                    <span className="text-muted-foreground">
+                                        {new Date(change.changedAt).toLocaleString()}
+                                    </span>{" "}
+                                    <Badge variant="outline">{APPLICATION_STAGE_LABELS[change.stage]}</Badge>
+                                    {change.note && <span> {change.note}</span>}
+                                </li>
+                            ))}
+                        </ol>
+                    </CollapsibleContent>
+                </Collapsible>
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Plus, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { JobSkeleton } from "./job-skeleton"
+import type { CompanyRule } from "@/lib/company-rules"
+import {
+    COMPANY_RULE_LISTS,
+    COMPANY_RULE_LIST_LABELS,
+    COMPANY_RULE_MATCHES,
+    COMPANY_RULE_MATCH_LABELS,
+} from "@/lib/company-rule-kinds"
+
+// Add and remove the company rules every search is filtered with
+export function CompanyRulesManager() {
+    const [rules, setRules] = useState<CompanyRule[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchRules = async () => {
+            try {
+                const response = await fetch("/api/company-rules")
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+
+                const data = await response.json()
+                setRules(data.rules || [])
+            } catch (err: unknown) {
+                console.error("Error fetching company rules:", err)
+                setError("Failed to load company rules")
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchRules()
+    }, [])
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault()
+        setIsSaving(true)
+        setError(null)
+
+        const form = e.currentTarget
+        const formData = new FormData(form)
+
+        try {
+            const response = await fetch("/api/company-rules", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    list: formData.get("list"),
+                    match: formData.get("match"),
+                    pattern: formData.get("pattern"),
+                }),
+            })
+
+            const data = await response.json()
+
+            if (!response.ok) {
+                // Pattern problems come back as a readable message
+                throw new Error(data.error || `API error: ${response.status}`)
+            }
+
+            setRules((current) => (current.some((rule) => rule.id === data.rule.id) ? current : [...current, data.rule]))
+            form.reset()
+        } catch (err: unknown) {
+            console.error("Error adding company rule:", err)
+            setError(err instanceof Error ? `Failed to add the rule: ${err.message}` : "Failed to add the rule")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const remove = async (id: string) => {
+        setError(null)
+
+        try {
+            const response = await fetch(`/api/company-rules/${id}`, { method: "DELETE" })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            setRules((current) => current.filter((rule) => rule.id !== id))
+        } catch (err: unknown) {
+            console.error("Error deleting company rule:", err)
+            setError("Failed to delete the rule")
+        }
+    }
+
+    if (isLoading) {
+        return <JobSkeleton />
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Add a rule</CardTitle>
+                    <CardDescription>
+                        Blocked companies never show up. Once any allow rule exists, only allowed companies do.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-[auto_auto_1fr_auto] gap-4 items-end">
+                        <div className="grid gap-2">
+                            <Label htmlFor="rule-list">List</Label>
+                            <Select name="list" defaultValue="block">
+                                <SelectTrigger id="rule-list" className="w-36">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {COMPANY_RULE_LISTS.map((list) => (
+                                        <SelectItem key={list} value={list}>
+                                            {COMPANY_RULE_LIST_LABELS[list]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="rule-match">Match</Label>
+                            <Select name="match" defaultValue="normalized">
+                                <SelectTrigger id="rule-match" className="w-48">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {COMPANY_RULE_MATCHES.map((match) => (
+                                        <SelectItem key={match} value={match}>
+                                            {COMPANY_RULE_MATCH_LABELS[match]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="rule-pattern">Company</Label>
+                            <Input id="rule-pattern" name="pattern" required placeholder="Acme Corp or staffing|recruit" />
+                        </div>
+                        <Button type="submit" disabled={isSaving}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            {isSaving ? "Adding..." : "Add Rule"}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            {COMPANY_RULE_LISTS.map((list) => {
+                const listRules = rules.filter((rule) => rule.list === list)
+
+                return (
+                    <Card key={list}>
+                        <CardHeader className="pb-3">
+                            <CardTitle className="text-lg">{COMPANY_RULE_LIST_LABELS[list]}</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {listRules.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No rules</p>
+                            ) : (
+                                <ul className="divide-y">
+                                    {listRules.map((rule) => (
+                                        <li key={rule.id} className="flex items-center justify-between py-2 gap-2">
+                                            <span className="flex items-center gap-2 min-w-0">
+                                                <Badge variant="outline">{COMPANY_RULE_MATCH_LABELS[rule.match]}</Badge>
+                                                <code className="truncate text-sm">{rule.pattern}</code>
+                                            </span>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                title="Delete rule"
+                                                onClick={() => remove(rule.id)}
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </CardContent>
+                    </Card>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import type React from "react"
+
+import {
+    ExternalLink,
+    Building,
+    Clock,
+    MapPin,
+    Briefcase,
+    DollarSign,
+    Bookmark,
+    BookmarkCheck,
+    Share2,
+    GraduationCap,
+    Copy,
+    Search,
+} from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import Image from "next/image"
+import type { Job } from "@/types/job"
+import { formatPostedAgo } from "@/lib/dates"
+import { formatAnnualSalary, formatSalaryRange } from "@/lib/salary"
+
+interface JobCardProps {
+    job: Job
+    isSaved: boolean
+    onToggleSaved: () => void
+    // Extra footer buttons, shown before save and share
+    actions?: React.ReactNode
+}
+
+export function JobCard({ job, isSaved, onToggleSaved, actions }: JobCardProps) {
+    // Recompute the age from the timestamp, since cached card text goes out of date
+    const postedAt = job.postedAtConfidence !== "estimated" ? job.postedAt : undefined
+    const duplicates = job.duplicates || []
+    // Locations other than this card's, once each
+    const otherLocations = [...new Set(duplicates.map((duplicate) => duplicate.location))].filter(
+        (location) => location !== job.location,
+    )
+
+    return (
+        <Card className="overflow-hidden group hover:border-primary/50 transition-colors">
+            <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                        <CardTitle className="text-lg group-hover:text-primary transition-colors">
+                            <a href={job.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {job.title}
+                            </a>
+                        </CardTitle>
+                        <CardDescription className="flex items-center">
+                            <Building className="h-3.5 w-3.5 mr-1" />
+                            {job.company}
+                        </CardDescription>
+                    </div>
+                    {job.logoUrl && (
+                        <div className="h-12 w-12 rounded overflow-hidden border p-1">
+                            <Image
+                                src={job.logoUrl || "/placeholder.svg"}
+                                alt={`${job.company} logo`}
+                                className="h-full w-full object-contain"
+                                width={48}
+                                height={48}
+                            />
+                        </div>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="pb-3">
+                <div className="flex flex-wrap gap-2 mb-3">
+                    <Badge variant="outline" className="flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {job.location}
+                    </Badge>
+                    <Badge variant="outline" className="flex items-center">
+                        <Briefcase className="h-3 w-3 mr-1" />
+                        {job.jobType}
+                    </Badge>
+                    <Badge
+                        variant="outline"
+                        className="flex items-center"
+                        title={postedAt ? new Date(postedAt).toLocaleString() : undefined}
+                    >
+                        <Clock className="h-3 w-3 mr-1" />
+                        {postedAt ? formatPostedAgo(postedAt) : job.datePosted}
+                    </Badge>
+                    {job.seniorityLevel && (
+                        <Badge variant="outline" className="flex items-center">
+                            <GraduationCap className="h-3 w-3 mr-1" />
+                            {job.seniorityLevel}
+                        </Badge>
+                    )}
+                    {job.salary && (
+                        <Badge
+                            variant="outline"
+                            className="flex items-center"
+                            title={job.annualSalary ? `About ${formatAnnualSalary(job.annualSalary)}` : undefined}
+                        >
+                            <DollarSign className="h-3 w-3 mr-1" />
+                            {job.salaryRange ? formatSalaryRange(job.salaryRange) : job.salary}
+                        </Badge>
+                    )}
+                </div>
+
+                <p className="text-sm line-clamp-3">{job.description}</p>
+
+                {job.queryLocations && job.queryLocations.length > 0 && (
+                    <p className="mt-3 text-xs text-muted-foreground flex items-start gap-1">
+                        <Search className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>Found searching: {job.queryLocations.join(", ")}</span>
+                    </p>
+                )}
+
+                {duplicates.length > 0 && (
+                    <p className="mt-3 text-xs text-muted-foreground flex items-start gap-1">
+                        <Copy className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>
+                            {duplicates.length} {duplicates.length === 1 ? "duplicate" : "duplicates"} hidden
+                            {otherLocations.length > 0 && <> · also posted in: {otherLocations.join(", ")}</>}
+                        </span>
+                    </p>
+                )}
+
+                {job.skills && job.skills.length > 0 && (
+                    <div className="mt-3">
+                        <p className="text-xs text-muted-foreground mb-1">Skills:</p>
+                        <div className="flex flex-wrap gap-1">
+                            {job.skills.map((skill: string, index: number) => (
+                                <Badge key={index} variant="secondary" className="text-xs">
+                                    {skill}
+                                </Badge>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+            <CardFooter className="flex justify-between">
+                <Button asChild size="sm">
+                    <a href={job.url} target="_blank" rel="noopener noreferrer">
+                        View Job <ExternalLink className="h-3.5 w-3.5 ml-1" />
+                    </a>
+                </Button>
+
+                <div className="flex gap-2">
+                    {actions}
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        title={isSaved ? "Remove from saved jobs" : "Save job"}
+                        aria-pressed={isSaved}
+                        onClick={onToggleSaved}
+                    >
+                        {isSaved ? <BookmarkCheck className="h-4 w-4 text-primary" /> : <Bookmark className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Share job">
+                        <Share2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            </CardFooter>
+        </Card>
+    )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { FACET_FIELDS, FACET_LABELS, type FacetCounts, type FacetField } from "@/lib/facets"
+import { Button } from "@/components/ui/button"
+
+interface JobFacetsProps {
+    facets: FacetCounts
+    onToggle: (field: FacetField, value: string) => void
+    onClear: () => void
+}
+
+// Sidebar of facet values with counts over every scraped page
+export function JobFacets({ facets, onToggle, onClear }: JobFacetsProps) {
+    const hasSelection = FACET_FIELDS.some((field) => facets[field].some((facet) => facet.selected))
+
+    return (
+        <aside className="space-y-5" aria-label="Refine results">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Refine</h3>
+                {hasSelection && (
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={onClear}>
+                        Clear all
+                    </Button>
+                )}
+            </div>
+
+            {FACET_FIELDS.filter((field) => facets[field].length > 0).map((field) => (
+                <fieldset key={field} className="space-y-1.5">
+                    <legend className="text-sm font-medium mb-1.5">{FACET_LABELS[field]}</legend>
+                    {facets[field].map((facet) => (
+                        <label key={facet.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input
+                                type="checkbox"
+                                className="h-3.5 w-3.5 accent-primary"
+                                checked={facet.selected}
+                                onChange={() => onToggle(field, facet.value)}
+                            />
+                            <span className="flex-1 truncate" title={facet.value}>
+                                {facet.value}
+                            </span>
+                            <span className="text-xs text-muted-foreground">{facet.count}</span>
+                        </label>
+                    ))}
+                </fieldset>
+            ))}
+        </aside>
+    )
+}
@@ -1,73 +1,304 @@
 "use client"
 
-import { useEffect, useState } from "react"
-import { useSearchParams } from "next/navigation"
-import {
-    ExternalLink,
-    Building,
-    Clock,
-    MapPin,
-    Briefcase,
-    AlertCircle,
-    DollarSign,
-    Bookmark,
-    Share2,
-} from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { AlertCircle, Ban, ChevronDown, Download, Rss } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { Pagination } from "./pagination"
 import { JobSkeleton } from "./job-skeleton"
-import Image from "next/image"
+import { JobCard } from "./job-card"
+import { JobFacets } from "./job-facets"
+import { useSavedJobs } from "./use-saved-jobs"
 import type { Job } from "@/types/job"
+import { cn } from "@/lib/utils"
+import type { CacheMetadata } from "@/lib/cache"
+import type { FilteredOutJob } from "@/lib/keyword-query"
+import type { JobStreamEvent, JobStreamProgress, JobsResponse } from "@/lib/jobs-response"
+import { EXPORT_FORMATS } from "@/lib/export-formats"
+import { isScrapeErrorCode, type ScrapeErrorBody, type ScrapeErrorCode } from "@/lib/scrape-errors"
+import {
+    FACET_FIELDS,
+    JOB_SORTS,
+    JOB_SORT_LABELS,
+    facetParam,
+    type FacetCounts,
+    type FacetField,
+} from "@/lib/facets"
+
+// Parameters that decide what gets scraped; changing anything else only refines the same results
+function buildScrapeQuery(searchParams: URLSearchParams): URLSearchParams {
+    const query = new URLSearchParams({
+        keywords: searchParams.get("keywords") || "",
+        jobType: searchParams.get("jobType") || "all",
+        datePosted: searchParams.get("datePosted") || "anytime",
+        depth: searchParams.get("depth") || "1",
+        details: searchParams.get("details") || "false",
+    })
+
+    for (const location of searchParams.getAll("location")) {
+        query.append("location", location)
+    }
+
+    for (const key of [
+        "experienceLevel",
+        "workplaceType",
+        "distance",
+        "sortBy",
+        "postedWithinHours",
+        "source",
+        "dedupeThreshold",
+    ]) {
+        const value = searchParams.get(key)
+        if (value) {
+            query.set(key, value)
+        }
+    }
+
+    return query
+}
+
+// Query string for /api/jobs and the routes that share its parameters
+function buildJobsQuery(searchParams: URLSearchParams): string {
+    const query = buildScrapeQuery(searchParams)
+
+    // Optional parameters are left out unless set
+    for (const key of ["minSalary", "salaryCurrency", "sort"]) {
+        const value = searchParams.get(key)
+        if (value) {
+            query.set(key, value)
+        }
+    }
+
+    for (const field of FACET_FIELDS) {
+        for (const value of searchParams.getAll(facetParam(field))) {
+            query.append(facetParam(field), value)
+        }
+    }
+
+    return query.toString()
+}
+
+// Give up on a search after this long; streamed searches show progress, so they may run up to the server's limit
+const BATCH_TIMEOUT = 30000
+const STREAM_TIMEOUT = 60000
+
+// What to tell the user for each way a search can fail
+const SEARCH_ERROR_MESSAGES: Record<ScrapeErrorCode, { title: string; description: string }> = {
+    timeout: {
+        title: "The search took too long",
+        description: "LinkedIn was slow to respond. Try again, or search fewer pages or without full job details.",
+    },
+    navigation_failed: {
+        title: "LinkedIn could not be reached",
+        description: "The job search page failed to load. Check your connection and try again shortly.",
+    },
+    blocked: {
+        title: "LinkedIn is limiting searches",
+        description: "LinkedIn rate limited the search or asked to sign in. Searching again right away makes this worse.",
+    },
+    layout_changed: {
+        title: "LinkedIn's page has changed",
+        description: "The results page no longer looks the way this app expects, so trying again will not help until the app is updated.",
+    },
+    no_results: {
+        title: "No jobs found",
+        description: "LinkedIn listed no jobs for this search. Try broader keywords, another location or fewer filters.",
+    },
+    busy: {
+        title: "Too many searches at once",
+        description: "Every browser is busy with other searches. Try again in a moment.",
+    },
+    internal: {
+        title: "Something went wrong",
+        description: "The search failed unexpectedly. If this keeps happening, include the reference below when reporting it.",
+    },
+}
+
+// A search the server reported as failed, as opposed to a request that never got an answer
+class SearchFailedError extends Error {
+    constructor(readonly body: ScrapeErrorBody) {
+        super(body.error)
+        this.name = "SearchFailedError"
+    }
+}
+
+interface SearchErrorState {
+    message: string
+    code?: ScrapeErrorCode
+    requestId?: string
+    retryAfter?: number
+}
+
+// "30 seconds" or "15 minutes"
+function formatWait(seconds: number): string {
+    if (seconds < 60) return `${seconds} seconds`
+    const minutes = Math.round(seconds / 60)
+    return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`
+}
+
+// A warning in `error` means some locations of a multi-location search failed
+type JobsResponseBody = JobsResponse & { error?: string }
+
+interface StreamHandlers {
+    onJob: (job: Job) => void
+    onProgress: (progress: JobStreamProgress) => void
+}
+
+// Read /api/jobs/stream, passing jobs and progress on as they arrive. Resolves with the final response,
+// or null when streaming is unavailable or ends without one, so the caller can use /api/jobs instead.
+async function readJobsStream(
+    query: string,
+    signal: AbortSignal,
+    { onJob, onProgress }: StreamHandlers,
+): Promise<JobsResponse | null> {
+    const response = await fetch(`/api/jobs/stream?${query}`, { signal })
+
+    if (!response.ok || !response.body) {
+        return null
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffered = ""
+
+    for (;;) {
+        const { value, done } = await reader.read()
+        if (done) return null
+
+        const lines = (buffered + value).split("\n")
+        // The last line may still be incomplete
+        buffered = lines.pop() || ""
+
+        for (const line of lines) {
+            if (!line.trim()) continue
+
+            const event = JSON.parse(line) as JobStreamEvent
+
+            if (event.type === "job") {
+                onJob(event.job)
+            } else if (event.type === "progress") {
+                onProgress(event)
+            } else if (event.type === "result") {
+                reader.cancel().catch(() => undefined)
+                return event
+            } else {
+                throw new SearchFailedError(event)
+            }
+        }
+    }
+}
+
+// "crawled 2 of 4 pages" or, once postings are being opened, "opened 5 of 17 postings"
+function describeProgress({ pages, details }: Partial<Record<JobStreamProgress["stage"], JobStreamProgress>>) {
+    if (details) return `opened ${details.done} of ${details.total} postings`
+    if (pages) return `crawled ${pages.done} of ${pages.total} ${pages.total === 1 ? "page" : "pages"}`
+    return undefined
+}
 
 export function JobResults() {
     const searchParams = useSearchParams()
+    const router = useRouter()
+    const pathname = usePathname()
     const [jobs, setJobs] = useState<Job[]>([])
     const [isLoading, setIsLoading] = useState(false)
-    const [error, setError] = useState<string | null>(null)
+    // Facet, sort and salary changes keep the current results on screen while they reload
+    const [isRefining, setIsRefining] = useState(false)
+    // Set while streamed jobs are shown ahead of the final results
+    const [isStreaming, setIsStreaming] = useState(false)
+    const [progress, setProgress] = useState<Partial<Record<JobStreamProgress["stage"], JobStreamProgress>>>({})
+    const loadedScrapeQuery = useRef<string | null>(null)
+    const [facets, setFacets] = useState<FacetCounts | null>(null)
+    const [error, setError] = useState<SearchErrorState | null>(null)
     const [warning, setWarning] = useState<string | null>(null)
     const [totalCount, setTotalCount] = useState(0)
+    const [hiddenBySalary, setHiddenBySalary] = useState(0)
+    const [hiddenByCompanyRules, setHiddenByCompanyRules] = useState(0)
+    const [filteredOut, setFilteredOut] = useState<FilteredOutJob[]>([])
+    // Bumped to fetch the same search again, e.g. after blocking a company
+    const [reloadCount, setReloadCount] = useState(0)
     const [currentPage, setCurrentPage] = useState(1)
-    const [isFromCache, setIsFromCache] = useState(false)
+    const [cacheInfo, setCacheInfo] = useState<CacheMetadata | null>(null)
     const [itemsPerPage] = useState(10) // Fixed at 10 items per page
+    const { savedJobIds, toggleSaved } = useSavedJobs()
 
     useEffect(() => {
         const keywords = searchParams.get("keywords")
         if (!keywords) return
 
+        const scrapeQuery = buildScrapeQuery(searchParams).toString()
+        const isRefinement = loadedScrapeQuery.current === scrapeQuery
+        // Set once another search or a reload replaces this one, so its late results and errors are dropped
+        let isSuperseded = false
+        const controller = new AbortController()
+
         const fetchJobs = async () => {
-            setIsLoading(true)
+            // Set every flag, since a superseded search leaves its own flags as they were
+            setIsLoading(!isRefinement)
+            setIsRefining(isRefinement)
+            setIsStreaming(false)
             setError(null)
             setWarning(null)
+            setProgress({})
 
-            try {
-                const location = searchParams.get("location") || ""
-                const jobType = searchParams.get("jobType") || "all"
-                const datePosted = searchParams.get("datePosted") || "anytime"
-
-                // Add a timeout to the fetch request
-                const controller = new AbortController()
-                const timeoutId = setTimeout(() => controller.abort(), 30000)
-
-                // Remove page parameter from API call
-                const response = await fetch(
-                    `/api/jobs?keywords=${encodeURIComponent(keywords)}&location=${encodeURIComponent(
-                        location,
-                    )}&jobType=${jobType}&datePosted=${datePosted}`,
-                    { signal: controller.signal },
-                )
+            // Add a timeout to the fetch request
+            const timeoutId = setTimeout(() => controller.abort(), isRefinement ? BATCH_TIMEOUT : STREAM_TIMEOUT)
+            // Remove page parameter from API call
+            const query = buildJobsQuery(searchParams)
 
-                clearTimeout(timeoutId)
+            // Show jobs as they are scraped, once the first one replaces the skeletons
+            const streamJob = (job: Job) => {
+                if (isSuperseded) return
+
+                setIsLoading(false)
+                setIsStreaming(true)
+                setJobs((current) => (current.some((other) => other.id === job.id) ? current : [...current, job]))
+            }
+
+            // A new search streams its results; refinements reuse the cached scrape, so the batch response is as quick
+            const readStream = async (): Promise<JobsResponseBody | null> => {
+                if (isRefinement) return null
+
+                setJobs([])
+
+                try {
+                    return await readJobsStream(query, controller.signal, {
+                        onJob: streamJob,
+                        onProgress: (update) => {
+                            if (!isSuperseded) setProgress((current) => ({ ...current, [update.stage]: update }))
+                        },
+                    })
+                } catch (err) {
+                    // A failed search would fail the same way again
+                    if (controller.signal.aborted || err instanceof SearchFailedError) throw err
+
+                    console.error("Streaming jobs failed, falling back to the batch response:", err)
+                    return null
+                }
+            }
+
+            const readBatch = async (): Promise<JobsResponseBody> => {
+                const response = await fetch(`/api/jobs?${query}`, {
+                    signal: controller.signal,
+                })
 
                 if (!response.ok) {
-                    throw new Error(`API error: ${response.status}`)
+                    const body = await response.json().catch(() => null)
+                    if (isScrapeErrorCode(body?.code)) throw new SearchFailedError(body)
+                    throw new Error(body?.error || `API error: ${response.status}`)
                 }
 
-                const data = await response.json()
+                return response.json()
+            }
+
+            try {
+                const data = (await readStream()) ?? (await readBatch())
+                if (isSuperseded) return
 
                 // Check if there's a warning message from the API
                 if (data.error) {
@@ -78,30 +309,99 @@ export function JobResults() {
 
                 setJobs(data.jobs || [])
                 setTotalCount(data.totalCount || 0)
-                setIsFromCache(data.isFromCache || false)
+                setHiddenBySalary(data.hiddenBySalary || 0)
+                setHiddenByCompanyRules(data.hiddenByCompanyRules || 0)
+                setFilteredOut(data.filteredOut || [])
+                setFacets(data.facets || null)
+                loadedScrapeQuery.current = scrapeQuery
+                setCacheInfo(data.cache || null)
 
                 // Reset to first page when new search is performed
                 setCurrentPage(1)
             } catch (err: unknown) {
+                if (isSuperseded) return
+
                 if (err instanceof Error) {
                     console.error("Error fetching jobs:", err)
 
-                    if (err.name === "AbortError") {
-                        setError("Request timed out. Please try again with a simpler search.")
+                    if (err instanceof SearchFailedError) {
+                        const { error: message, code, requestId, retryAfter } = err.body
+                        setError({ message, code, requestId, retryAfter })
+                    } else if (err.name === "AbortError") {
+                        setError({ message: "Request timed out", code: "timeout" })
                     } else {
-                        setError(`Failed to fetch job listings: ${err.message}`)
+                        setError({ message: `Failed to fetch job listings: ${err.message}` })
                     }
 
                     // Set empty jobs array to avoid undefined errors
                     setJobs([])
+                    setFacets(null)
+                    loadedScrapeQuery.current = null
                 }
             } finally {
-                setIsLoading(false)
+                clearTimeout(timeoutId)
+
+                if (!isSuperseded) {
+                    setIsLoading(false)
+                    setIsRefining(false)
+                    setIsStreaming(false)
+                }
             }
         }
 
         fetchJobs()
-    }, [searchParams])
+
+        return () => {
+            isSuperseded = true
+            controller.abort()
+        }
+    }, [searchParams, reloadCount])
+
+    // Facet and sort choices live in the URL, so a refined view can be shared
+    const updateResultParams = (change: (params: URLSearchParams) => void) => {
+        const params = new URLSearchParams(searchParams.toString())
+        change(params)
+        router.replace(`${pathname}?${params.toString()}`, { scroll: false })
+    }
+
+    const handleFacetToggle = (field: FacetField, value: string) => {
+        updateResultParams((params) => {
+            const selected = params.getAll(facetParam(field))
+            params.delete(facetParam(field))
+            const next = selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]
+            next.forEach((item) => params.append(facetParam(field), item))
+        })
+    }
+
+    const handleFacetsClear = () => {
+        updateResultParams((params) => FACET_FIELDS.forEach((field) => params.delete(facetParam(field))))
+    }
+
+    const handleSortChange = (sort: string) => {
+        updateResultParams((params) => (sort === "relevance" ? params.delete("sort") : params.set("sort", sort)))
+    }
+
+    const blockCompany = async (company: string) => {
+        setWarning(null)
+
+        try {
+            const response = await fetch("/api/company-rules", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ list: "block", match: "normalized", pattern: company }),
+            })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            // Reload so counts and facets reflect the new rule
+            setReloadCount((count) => count + 1)
+        } catch (err: unknown) {
+            console.error("Error blocking company:", err)
+            setWarning(`Failed to block ${company}`)
+        }
+    }
 
     const handlePageChange = (page: number) => {
         // Only update local state, no URL changes
@@ -126,7 +426,11 @@ export function JobResults() {
             <div className="space-y-4">
                 <div className="flex justify-between items-center">
                     <h2 className="text-xl font-semibold">Job Results</h2>
-                    <Skeleton className="h-5 w-40" />
+                    {describeProgress(progress) ? (
+                        <p className="text-sm text-muted-foreground">Searching: {describeProgress(progress)}</p>
+                    ) : (
+                        <Skeleton className="h-5 w-40" />
+                    )}
                 </div>
                 {[1, 2, 3].map((i) => (
                     <JobSkeleton key={i} />
@@ -136,14 +440,24 @@ export function JobResults() {
     }
 
     if (error) {
+        const tailored = error.code && SEARCH_ERROR_MESSAGES[error.code]
+
         return (
-            <Card className="border-destructive">
+            <Card className={cn(error.code !== "no_results" && "border-destructive")}>
                 <CardHeader>
-                    <CardTitle>Error</CardTitle>
-                    <CardDescription>There was a problem fetching job listings</CardDescription>
+                    <CardTitle>{tailored ? tailored.title : "Error"}</CardTitle>
+                    <CardDescription>
+                        {tailored ? tailored.description : "There was a problem fetching job listings"}
+                    </CardDescription>
                 </CardHeader>
-                <CardContent>
-                    <p>{error}</p>
+                <CardContent className="space-y-1">
+                    <p>{error.message}</p>
+                    {error.retryAfter && (
+                        <p className="text-sm text-muted-foreground">Wait about {formatWait(error.retryAfter)} before trying again.</p>
+                    )}
+                    {error.requestId && (
+                        <p className="text-xs text-muted-foreground">Reference: {error.requestId}</p>
+                    )}
                 </CardContent>
                 <CardFooter>
                     <Button variant="outline" onClick={() => window.location.reload()}>
@@ -171,10 +485,97 @@ export function JobResults() {
         <div className="space-y-4">
             <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold">Job Results</h2>
+                {isStreaming ? (
+                    <p className="text-sm text-muted-foreground flex items-center gap-2" aria-live="polite">
+                        <span className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                        {jobs.length} {jobs.length === 1 ? "job" : "jobs"} so far
+                        {describeProgress(progress) && `, ${describeProgress(progress)}`}
+                    </p>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Found {totalCount} matching jobs{" "}
+                        {cacheInfo &&
+                            (cacheInfo.stale
+                                ? "(cached results, refreshing in the background)"
+                                : `(cached ${new Date(cacheInfo.cachedAt).toLocaleTimeString()})`)}
+                    </p>
+                )}
+            </div>
+
+            {jobs.length > 0 && (
+                <div className="flex flex-wrap justify-end items-center gap-2">
+                    <Select value={searchParams.get("sort") || "relevance"} onValueChange={handleSortChange}>
+                        <SelectTrigger className="w-40 h-9 mr-auto" aria-label="Sort jobs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {JOB_SORTS.map((sort) => (
+                                <SelectItem key={sort} value={sort}>
+                                    {JOB_SORT_LABELS[sort]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <span className="text-sm text-muted-foreground flex items-center">
+                        <Download className="h-3.5 w-3.5 mr-1" />
+                        Export
+                    </span>
+                    {EXPORT_FORMATS.map((format) => (
+                        <Button key={format} asChild variant="outline" size="sm">
+                            <a href={`/api/jobs/export?${buildJobsQuery(searchParams)}&format=${format}`} download>
+                                {format.toUpperCase()}
+                            </a>
+                        </Button>
+                    ))}
+                    <Button asChild variant="ghost" size="sm" title="Follow this search in a feed reader">
+                        <a href={`/api/jobs/feed?${buildJobsQuery(searchParams)}`} target="_blank" rel="noopener noreferrer">
+                            <Rss className="h-3.5 w-3.5 mr-1" />
+                            Feed
+                        </a>
+                    </Button>
+                </div>
+            )}
+
+            {filteredOut.length > 0 && (
+                <Collapsible>
+                    <CollapsibleTrigger className="flex items-center text-sm text-muted-foreground hover:underline">
+                        {filteredOut.length} LinkedIn {filteredOut.length === 1 ? "result" : "results"} filtered out by
+                        your keyword query
+                        <ChevronDown className="h-3.5 w-3.5 ml-1" />
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                        <ul className="mt-2 space-y-1 text-sm">
+                            {filteredOut.map(({ job, reasons }) => (
+                                <li key={job.id}>
+                                    <a href={job.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                        {job.title}
+                                    </a>{" "}
+                                    <span className="text-muted-foreground">
+                                        at {job.company}: {reasons.join("; ")}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </CollapsibleContent>
+                </Collapsible>
+            )}
+
+            {hiddenByCompanyRules > 0 && (
                 <p className="text-sm text-muted-foreground">
-                    Found {totalCount} matching jobs {isFromCache && "(cached results)"}
+                    {hiddenByCompanyRules} {hiddenByCompanyRules === 1 ? "job was" : "jobs were"} hidden by your{" "}
+                    <Link href="/companies" className="underline">
+                        company rules
+                    </Link>
+                    .
                 </p>
-            </div>
+            )}
+
+            {hiddenBySalary > 0 && (
+                <p className="text-sm text-muted-foreground">
+                    {hiddenBySalary} {hiddenBySalary === 1 ? "job was" : "jobs were"} hidden by the minimum salary
+                    filter, including jobs that do not list a salary.
+                </p>
+            )}
 
             {warning && (
                 <Alert className="mb-4">
@@ -183,109 +584,50 @@ export function JobResults() {
                 </Alert>
             )}
 
-            {jobs.length === 0 ? (
-                <Card>
-                    <CardHeader>
-                        <CardTitle>No Results Found</CardTitle>
-                        <CardDescription>We couldn&apos;t find any jobs matching your search criteria</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                        <p>Try adjusting your search terms or filters to see more results.</p>
-                    </CardContent>
-                </Card>
-            ) : (
-                <>
-                    <div className="grid grid-cols-1 gap-4">
-                        {displayedJobs.map((job) => (
-                            <Card key={job.id} className="overflow-hidden group hover:border-primary/50 transition-colors">
-                                <CardHeader className="pb-3">
-                                    <div className="flex items-start justify-between">
-                                        <div className="space-y-1">
-                                            <CardTitle className="text-lg group-hover:text-primary transition-colors">
-                                                <a href={job.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
-                                                    {job.title}
-                                                </a>
-                                            </CardTitle>
-                                            <CardDescription className="flex items-center">
-                                                <Building className="h-3.5 w-3.5 mr-1" />
-                                                {job.company}
-                                            </CardDescription>
-                                        </div>
-                                        {job.logoUrl && (
-                                            <div className="h-12 w-12 rounded overflow-hidden border p-1">
-                                                <Image
-                                                    src={job.logoUrl || "/placeholder.svg"}
-                                                    alt={`${job.company} logo`}
-                                                    className="h-full w-full object-contain"
-                                                    width={48}
-                                                    height={48}
-                                                />
-                                            </div>
-                                        )}
-                                    </div>
-                                </CardHeader>
-                                <CardContent className="pb-3">
-                                    <div className="flex flex-wrap gap-2 mb-3">
-                                        <Badge variant="outline" className="flex items-center">
-                                            <MapPin className="h-3 w-3 mr-1" />
-                                            {job.location}
-                                        </Badge>
-                                        <Badge variant="outline" className="flex items-center">
-                                            <Briefcase className="h-3 w-3 mr-1" />
-                                            {job.jobType}
-                                        </Badge>
-                                        <Badge variant="outline" className="flex items-center">
-                                            <Clock className="h-3 w-3 mr-1" />
-                                            {job.datePosted}
-                                        </Badge>
-                                        {job.salary && (
-                                            <Badge variant="outline" className="flex items-center">
-                                                <DollarSign className="h-3 w-3 mr-1" />
-                                                {job.salary}
-                                            </Badge>
-                                        )}
-                                    </div>
-
-                                    <p className="text-sm line-clamp-3">{job.description}</p>
-
-                                    {job.skills && job.skills.length > 0 && (
-                                        <div className="mt-3">
-                                            <p className="text-xs text-muted-foreground mb-1">Skills:</p>
-                                            <div className="flex flex-wrap gap-1">
-                                                {job.skills.map((skill: string, index: number) => (
-                                                    <Badge key={index} variant="secondary" className="text-xs">
-                                                        {skill}
-                                                    </Badge>
-                                                ))}
-                                            </div>
-                                        </div>
-                                    )}
-                                </CardContent>
-                                <CardFooter className="flex justify-between">
-                                    <Button asChild size="sm">
-                                        <a href={job.url} target="_blank" rel="noopener noreferrer">
-                                            View Job <ExternalLink className="h-3.5 w-3.5 ml-1" />
-                                        </a>
-                                    </Button>
-
-                                    <div className="flex gap-2">
-                                        <Button variant="ghost" size="icon" title="Save job">
-                                            <Bookmark className="h-4 w-4" />
-                                        </Button>
-                                        <Button variant="ghost" size="icon" title="Share job">
-                                            <Share2 className="h-4 w-4" />
-                                        </Button>
-                                    </div>
-                                </CardFooter>
-                            </Card>
-                        ))}
-                    </div>
-
-                    {jobs.length > 10 && (
-                        <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={handlePageChange} />
+            <div className={facets ? "grid grid-cols-1 md:grid-cols-[13rem_1fr] gap-6 items-start" : undefined}>
+                {facets && <JobFacets facets={facets} onToggle={handleFacetToggle} onClear={handleFacetsClear} />}
+
+                <div className={cn("space-y-4 transition-opacity", isRefining && "opacity-60")} aria-busy={isRefining}>
+                    {jobs.length === 0 ? (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>No Results Found</CardTitle>
+                                <CardDescription>We couldn&apos;t find any jobs matching your search criteria</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <p>Try adjusting your search terms or filters to see more results.</p>
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 gap-4">
+                                {displayedJobs.map((job) => (
+                                    <JobCard
+                                        key={job.id}
+                                        job={job}
+                                        isSaved={savedJobIds.has(job.id)}
+                                        onToggleSaved={() => toggleSaved(job)}
+                                        actions={
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                title={`Hide ${job.company} from all searches`}
+                                                onClick={() => blockCompany(job.company)}
+                                            >
+                                                <Ban className="h-4 w-4" />
+                                            </Button>
+                                        }
+                                    />
+                                ))}
+                            </div>
+
+                            {jobs.length > 10 && (
+                                <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={handlePageChange} />
+                            )}
+                        </>
                     )}
-                </>
-            )}
+                </div>
+            </div>
         </div>
     )
 }
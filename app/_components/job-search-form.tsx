@@ -4,24 +4,64 @@ import type React from "react"
 
 import { useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
-import { Search, MapPin, Filter, Briefcase, Calendar } from "lucide-react"
+import {
+    Search,
+    Filter,
+    Briefcase,
+    Calendar,
+    Layers,
+    DollarSign,
+    Building2,
+    GraduationCap,
+    Radius,
+    ArrowDownUp,
+} from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CURRENCY_CODES } from "@/lib/salary"
+import {
+    EXPERIENCE_LEVELS,
+    EXPERIENCE_LEVEL_LABELS,
+    MAX_POSTED_WITHIN_HOURS,
+    SEARCH_DISTANCES,
+    SEARCH_SORTS,
+    SEARCH_SORT_LABELS,
+    WORKPLACE_TYPES,
+    WORKPLACE_TYPE_LABELS,
+} from "@/lib/search-filters"
+import { LocationInput } from "./location-input"
 
 export function JobSearchForm() {
     const router = useRouter()
-    const searchParams = useSearchParams()
+    const currentSearchParams = useSearchParams()
     const [isLoading, setIsLoading] = useState(false)
 
     // Get current search params
-    const currentKeywords = searchParams.get("keywords") || ""
-    const currentLocation = searchParams.get("location") || ""
-    const currentJobType = searchParams.get("jobType") || "all"
-    const currentDatePosted = searchParams.get("datePosted") || "anytime"
+    const currentKeywords = currentSearchParams.get("keywords") || ""
+    const currentLocations = currentSearchParams.getAll("location").filter(Boolean)
+    const currentJobType = currentSearchParams.get("jobType") || "all"
+    const currentPostedWithinHours = currentSearchParams.get("postedWithinHours") || ""
+    // A custom hour window shows as its own "Date Posted" choice
+    const currentDatePosted = currentPostedWithinHours ? "custom" : currentSearchParams.get("datePosted") || "anytime"
+    const currentExperienceLevels = currentSearchParams.get("experienceLevel")?.split(",") || []
+    // Searches from before workplace types existed used jobType=remote
+    const currentWorkplaceTypes =
+        currentSearchParams.get("workplaceType")?.split(",") ||
+        (currentSearchParams.get("jobType") === "remote" ? ["remote"] : [])
+    const currentDistance = currentSearchParams.get("distance") || "any"
+    const currentSortBy = currentSearchParams.get("sortBy") || "relevance"
+    const currentDepth = currentSearchParams.get("depth") || "1"
+    const currentDetails = currentSearchParams.get("details") === "true"
+    const currentMinSalary = currentSearchParams.get("minSalary") || ""
+    const currentSalaryCurrency = currentSearchParams.get("salaryCurrency") || "USD"
+    const currentJobTypeValue = currentJobType === "remote" ? "all" : currentJobType
+
+    const [datePosted, setDatePosted] = useState(currentDatePosted)
 
     const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault()
@@ -31,11 +71,59 @@ export function JobSearchForm() {
         const searchParams = new URLSearchParams()
 
         searchParams.set("keywords", formData.get("keywords") as string)
-        searchParams.set("location", formData.get("location") as string)
+        // Each location is searched separately and the results merged
+        for (const location of formData.getAll("location") as string[]) {
+            if (location.trim()) {
+                searchParams.append("location", location.trim())
+            }
+        }
         searchParams.set("jobType", formData.get("jobType") as string)
-        searchParams.set("datePosted", formData.get("datePosted") as string)
+
+        if (datePosted === "custom") {
+            searchParams.set("datePosted", "anytime")
+            searchParams.set("postedWithinHours", formData.get("postedWithinHours") as string)
+        } else {
+            searchParams.set("datePosted", datePosted)
+        }
+
+        // LinkedIn filters are only sent when they narrow the search
+        const experienceLevels = formData.getAll("experienceLevel") as string[]
+        if (experienceLevels.length > 0) {
+            searchParams.set("experienceLevel", experienceLevels.join(","))
+        }
+
+        const workplaceTypes = formData.getAll("workplaceType") as string[]
+        if (workplaceTypes.length > 0) {
+            searchParams.set("workplaceType", workplaceTypes.join(","))
+        }
+
+        const distance = formData.get("distance") as string
+        if (distance !== "any") {
+            searchParams.set("distance", distance)
+        }
+
+        const sortBy = formData.get("sortBy") as string
+        if (sortBy !== "relevance") {
+            searchParams.set("sortBy", sortBy)
+        }
+
+        searchParams.set("depth", formData.get("depth") as string)
+        searchParams.set("details", formData.get("details") ? "true" : "false")
         searchParams.set("page", "1")
 
+        // The salary filter applies to scraped results, so only send it when set
+        const minSalary = formData.get("minSalary") as string
+        if (minSalary) {
+            searchParams.set("minSalary", minSalary)
+            searchParams.set("salaryCurrency", formData.get("salaryCurrency") as string)
+        }
+
+        // Keep the job source chosen via the URL (e.g. ?source=fixtures)
+        const currentSource = currentSearchParams.get("source")
+        if (currentSource) {
+            searchParams.set("source", currentSource)
+        }
+
         router.push(`/?${searchParams.toString()}`)
 
         // Allow time for the URL to update before refreshing
@@ -65,29 +153,27 @@ export function JobSearchForm() {
                                 defaultValue={currentKeywords}
                             />
                         </div>
+                        <p className="text-xs text-muted-foreground">
+                            Supports &quot;quoted phrases&quot;, AND, OR, parentheses and -term to exclude, e.g.
+                            &quot;data engineer&quot; AND (python OR scala) -intern
+                        </p>
                     </div>
 
                     <div className="grid gap-2">
-                        <Label htmlFor="location">Location</Label>
-                        <div className="relative">
-                            <MapPin className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                            <Input
-                                id="location"
-                                name="location"
-                                placeholder="City, state, or remote"
-                                className="pl-8"
-                                defaultValue={currentLocation}
-                            />
-                        </div>
+                        <Label htmlFor="location">Locations</Label>
+                        <LocationInput id="location" name="location" defaultValue={currentLocations} />
+                        <p className="text-xs text-muted-foreground">
+                            Press Enter to add another location. Each one is searched and the results are merged.
+                        </p>
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="grid gap-2">
                             <Label htmlFor="jobType" className="flex items-center gap-1">
                                 <Briefcase className="h-4 w-4" />
                                 Job Type
                             </Label>
-                            <Select name="jobType" defaultValue={currentJobType}>
+                            <Select name="jobType" defaultValue={currentJobTypeValue}>
                                 <SelectTrigger id="jobType" className="w-full">
                                     <SelectValue placeholder="Select job type" />
                                 </SelectTrigger>
@@ -98,7 +184,6 @@ export function JobSearchForm() {
                                     <SelectItem value="contract">Contract</SelectItem>
                                     <SelectItem value="temporary">Temporary</SelectItem>
                                     <SelectItem value="internship">Internship</SelectItem>
-                                    <SelectItem value="remote">Remote</SelectItem>
                                 </SelectContent>
                             </Select>
                         </div>
@@ -108,7 +193,7 @@ export function JobSearchForm() {
                                 <Calendar className="h-4 w-4" />
                                 Date Posted
                             </Label>
-                            <Select name="datePosted" defaultValue={currentDatePosted}>
+                            <Select value={datePosted} onValueChange={setDatePosted}>
                                 <SelectTrigger id="datePosted" className="w-full">
                                     <SelectValue placeholder="Select time period" />
                                 </SelectTrigger>
@@ -117,11 +202,164 @@ export function JobSearchForm() {
                                     <SelectItem value="past24hours">Past 24 hours</SelectItem>
                                     <SelectItem value="pastWeek">Past Week</SelectItem>
                                     <SelectItem value="pastMonth">Past Month</SelectItem>
+                                    <SelectItem value="custom">Past N hours…</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            {datePosted === "custom" && (
+                                <Input
+                                    name="postedWithinHours"
+                                    type="number"
+                                    min={1}
+                                    max={MAX_POSTED_WITHIN_HOURS}
+                                    placeholder="Hours"
+                                    aria-label="Posted within the past hours"
+                                    required
+                                    defaultValue={currentPostedWithinHours}
+                                />
+                            )}
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="depth" className="flex items-center gap-1">
+                                <Layers className="h-4 w-4" />
+                                Search Depth
+                            </Label>
+                            <Select name="depth" defaultValue={currentDepth}>
+                                <SelectTrigger id="depth" className="w-full">
+                                    <SelectValue placeholder="Select pages to search" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="1">1 page</SelectItem>
+                                    <SelectItem value="2">2 pages</SelectItem>
+                                    <SelectItem value="3">3 pages</SelectItem>
+                                    <SelectItem value="5">5 pages</SelectItem>
                                 </SelectContent>
                             </Select>
                         </div>
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <fieldset className="grid gap-2">
+                            <legend className="flex items-center gap-1 text-sm font-medium mb-2">
+                                <Building2 className="h-4 w-4" />
+                                Workplace Type
+                            </legend>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {WORKPLACE_TYPES.map((type) => (
+                                    <label key={type} className="flex items-center gap-2 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            name="workplaceType"
+                                            value={type}
+                                            defaultChecked={currentWorkplaceTypes.includes(type)}
+                                            className="h-3.5 w-3.5 accent-primary"
+                                        />
+                                        {WORKPLACE_TYPE_LABELS[type]}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+
+                        <fieldset className="grid gap-2">
+                            <legend className="flex items-center gap-1 text-sm font-medium mb-2">
+                                <GraduationCap className="h-4 w-4" />
+                                Experience Level
+                            </legend>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {EXPERIENCE_LEVELS.map((level) => (
+                                    <label key={level} className="flex items-center gap-2 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            name="experienceLevel"
+                                            value={level}
+                                            defaultChecked={currentExperienceLevels.includes(level)}
+                                            className="h-3.5 w-3.5 accent-primary"
+                                        />
+                                        {EXPERIENCE_LEVEL_LABELS[level]}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="distance" className="flex items-center gap-1">
+                                <Radius className="h-4 w-4" />
+                                Distance
+                            </Label>
+                            <Select name="distance" defaultValue={currentDistance}>
+                                <SelectTrigger id="distance" className="w-full">
+                                    <SelectValue placeholder="Select search radius" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="any">Any distance</SelectItem>
+                                    {SEARCH_DISTANCES.map((distance) => (
+                                        <SelectItem key={distance} value={String(distance)}>
+                                            Within {distance} miles
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="sortBy" className="flex items-center gap-1">
+                                <ArrowDownUp className="h-4 w-4" />
+                                LinkedIn Order
+                            </Label>
+                            <Select name="sortBy" defaultValue={currentSortBy}>
+                                <SelectTrigger id="sortBy" className="w-full">
+                                    <SelectValue placeholder="Select result order" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {SEARCH_SORTS.map((sort) => (
+                                        <SelectItem key={sort} value={sort}>
+                                            {SEARCH_SORT_LABELS[sort]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="minSalary" className="flex items-center gap-1">
+                            <DollarSign className="h-4 w-4" />
+                            Minimum Yearly Salary
+                        </Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="minSalary"
+                                name="minSalary"
+                                type="number"
+                                min={0}
+                                step={1000}
+                                placeholder="Any salary"
+                                defaultValue={currentMinSalary}
+                            />
+                            <Select name="salaryCurrency" defaultValue={currentSalaryCurrency}>
+                                <SelectTrigger className="w-28" aria-label="Salary currency">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CURRENCY_CODES.map((currency) => (
+                                        <SelectItem key={currency} value={currency}>
+                                            {currency}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Hourly and monthly pay is annualized, and other currencies are converted with bundled
+                            exchange rates. Jobs without a salary are hidden while this is set.
+                        </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Switch id="details" name="details" defaultChecked={currentDetails} />
+                        <Label htmlFor="details">Fetch full job details (slower)</Label>
+                    </div>
+
                     <Button type="submit" className="w-full" disabled={isLoading}>
                         {isLoading ? (
                             <>
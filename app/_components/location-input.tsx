@@ -0,0 +1,77 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { MapPin, X } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { MAX_SEARCH_LOCATIONS, toLocationList } from "@/lib/search-filters"
+
+interface LocationInputProps {
+    id: string
+    name: string
+    defaultValue: string[]
+}
+
+// Several locations as removable chips. Enter adds the typed location; text still in the box is
+// submitted as one more location, so a single-city search works as it always has.
+export function LocationInput({ id, name, defaultValue }: LocationInputProps) {
+    const [locations, setLocations] = useState(defaultValue)
+    const [draft, setDraft] = useState("")
+    const isFull = locations.length >= MAX_SEARCH_LOCATIONS
+
+    const addDraft = () => {
+        if (!draft.trim() || isFull) return
+        setLocations(toLocationList([...locations, draft]))
+        setDraft("")
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") {
+            // Adding a location should not submit the search
+            e.preventDefault()
+            addDraft()
+        } else if (e.key === "Backspace" && !draft && locations.length > 0) {
+            setLocations(locations.slice(0, -1))
+        }
+    }
+
+    return (
+        <div className="grid gap-2">
+            {locations.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {locations.map((location) => (
+                        <Badge key={location} variant="secondary" className="gap-1 pr-1">
+                            {location}
+                            <input type="hidden" name={name} value={location} />
+                            <button
+                                type="button"
+                                onClick={() => setLocations(locations.filter((other) => other !== location))}
+                                className="rounded-sm hover:bg-muted-foreground/20"
+                                aria-label={`Remove ${location}`}
+                            >
+                                <X className="h-3 w-3" />
+                            </button>
+                        </Badge>
+                    ))}
+                </div>
+            )}
+            <div className="relative">
+                <MapPin className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                    id={id}
+                    name={name}
+                    placeholder={isFull ? `Up to ${MAX_SEARCH_LOCATIONS} locations` : "City, state, or remote"}
+                    className="pl-8"
+                    value={draft}
+                    disabled={isFull}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={addDraft}
+                />
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { BellPlus, Check } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent } from "@/components/ui/card"
+import { formatLocations } from "@/lib/search-filters"
+
+// Save the search currently in the URL so the scheduler re-runs it
+export function SaveSearchForm() {
+    const searchParams = useSearchParams()
+    const [isSaving, setIsSaving] = useState(false)
+    const [savedSearchKey, setSavedSearchKey] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const keywords = searchParams.get("keywords")
+    if (!keywords) return null
+
+    const locations = searchParams.getAll("location").filter(Boolean)
+    const searchKey = searchParams.toString()
+    const isSaved = savedSearchKey === searchKey
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault()
+        setIsSaving(true)
+        setError(null)
+
+        const formData = new FormData(e.currentTarget)
+
+        try {
+            const response = await fetch("/api/saved-searches", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    name: formData.get("name"),
+                    intervalMinutes: Number(formData.get("intervalMinutes")),
+                    options: {
+                        keywords,
+                        location: locations.length > 1 ? locations : locations[0] || "",
+                        jobType: searchParams.get("jobType") || "all",
+                        datePosted: searchParams.get("datePosted") || "anytime",
+                        postedWithinHours: Number(searchParams.get("postedWithinHours")) || undefined,
+                        experienceLevels: searchParams.get("experienceLevel")?.split(",") || [],
+                        workplaceTypes: searchParams.get("workplaceType")?.split(",") || [],
+                        distance: Number(searchParams.get("distance")) || undefined,
+                        sortBy: searchParams.get("sortBy") || undefined,
+                        depth: Number(searchParams.get("depth") || "1"),
+                        includeDetails: searchParams.get("details") === "true",
+                        source: searchParams.get("source") || undefined,
+                    },
+                }),
+            })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            setSavedSearchKey(searchKey)
+        } catch (err: unknown) {
+            console.error("Error saving search:", err)
+            setError("Failed to save this search")
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Card className="mb-8">
+            <CardContent className="pt-6">
+                {isSaved ? (
+                    <p className="text-sm flex items-center gap-2">
+                        <Check className="h-4 w-4 text-primary" />
+                        Search saved. New jobs will show up in{" "}
+                        <Link href="/whats-new" className="underline">
+                            What&apos;s new
+                        </Link>
+                        .
+                    </p>
+                ) : (
+                    <form key={searchKey} onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-4 items-end">
+                        <div className="grid gap-2">
+                            <Label htmlFor="saved-search-name">Save this search</Label>
+                            <Input
+                                id="saved-search-name"
+                                name="name"
+                                required
+                                defaultValue={locations.length > 0 ? `${keywords} in ${formatLocations(locations)}` : keywords}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="intervalMinutes">Re-run</Label>
+                            <Select name="intervalMinutes" defaultValue="1440">
+                                <SelectTrigger id="intervalMinutes" className="w-40">
+                                    <SelectValue placeholder="Select interval" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="60">Every hour</SelectItem>
+                                    <SelectItem value="360">Every 6 hours</SelectItem>
+                                    <SelectItem value="1440">Every day</SelectItem>
+                                    <SelectItem value="10080">Every week</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <Button type="submit" variant="outline" disabled={isSaving}>
+                            <BellPlus className="mr-2 h-4 w-4" />
+                            {isSaving ? "Saving..." : "Save Search"}
+                        </Button>
+                        {error && <p className="text-sm text-destructive md:col-span-3">{error}</p>}
+                    </form>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
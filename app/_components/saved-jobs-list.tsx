@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, KanbanSquare } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { JobSkeleton } from "./job-skeleton"
+import { JobCard } from "./job-card"
+import { useSavedJobs } from "./use-saved-jobs"
+import type { Job } from "@/types/job"
+
+export function SavedJobsList() {
+    const { savedJobs, savedJobIds, isLoading, error, toggleSaved } = useSavedJobs()
+    const [trackedJobIds, setTrackedJobIds] = useState<Set<string>>(new Set())
+    const [trackError, setTrackError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchApplications = async () => {
+            try {
+                const response = await fetch("/api/applications")
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+
+                const data = await response.json()
+                setTrackedJobIds(new Set((data.applications || []).map((application: { id: string }) => application.id)))
+            } catch (err: unknown) {
+                console.error("Error fetching applications:", err)
+            }
+        }
+
+        fetchApplications()
+    }, [])
+
+    // Start an application from the saved snapshot of the job
+    const track = async (job: Job) => {
+        setTrackError(null)
+
+        try {
+            const response = await fetch("/api/applications", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ jobId: job.id }),
+            })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            setTrackedJobIds((current) => new Set(current).add(job.id))
+        } catch (err: unknown) {
+            console.error("Error tracking job:", err)
+            setTrackError("Failed to start tracking the job")
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                    <JobSkeleton key={i} />
+                ))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Saved Jobs</h2>
+                <p className="text-sm text-muted-foreground">{savedJobs.length} saved</p>
+            </div>
+
+            {(error || trackError) && (
+                <Alert className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error || trackError}</AlertDescription>
+                </Alert>
+            )}
+
+            {savedJobs.length === 0 ? (
+                <Card className="border-dashed">
+                    <CardContent className="pt-6 text-center text-muted-foreground">
+                        Bookmark jobs in your search results to keep them here
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="grid grid-cols-1 gap-4">
+                    {savedJobs.map(({ job, savedAt }) => (
+                        <div key={job.id} className="space-y-1">
+                            <p className="text-xs text-muted-foreground">Saved {new Date(savedAt).toLocaleDateString()}</p>
+                            <JobCard
+                                job={job}
+                                isSaved={savedJobIds.has(job.id)}
+                                onToggleSaved={() => toggleSaved(job)}
+                                actions={
+                                    trackedJobIds.has(job.id) ? (
+                                        <Button asChild variant="outline" size="sm">
+                                            <Link href="/applications">Tracking</Link>
+                                        </Button>
+                                    ) : (
+                                        <Button variant="outline" size="sm" onClick={() => track(job)}>
+                                            <KanbanSquare className="h-3.5 w-3.5 mr-1" />
+                                            Track
+                                        </Button>
+                                    )
+                                }
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Play, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { JobSkeleton } from "./job-skeleton"
+import type { SavedSearch } from "@/lib/saved-searches"
+import { formatLocations } from "@/lib/search-filters"
+
+type SavedSearchSummary = Omit<SavedSearch, "seenJobIds"> & { seenJobCount: number }
+
+// Runs shown per saved search
+const VISIBLE_RUNS = 5
+
+function formatInterval(minutes: number): string {
+    if (minutes % (7 * 24 * 60) === 0) return `every ${minutes / (7 * 24 * 60)} week(s)`
+    if (minutes % (24 * 60) === 0) return `every ${minutes / (24 * 60)} day(s)`
+    return `every ${Math.round(minutes / 60)} hour(s)`
+}
+
+export function SavedSearchesList() {
+    const [savedSearches, setSavedSearches] = useState<SavedSearchSummary[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [runningId, setRunningId] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const fetchSavedSearches = async () => {
+        try {
+            const response = await fetch("/api/saved-searches")
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            const data = await response.json()
+            setSavedSearches(data.savedSearches || [])
+        } catch (err: unknown) {
+            console.error("Error fetching saved searches:", err)
+            setError("Failed to load saved searches")
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchSavedSearches()
+    }, [])
+
+    const runNow = async (id: string) => {
+        setRunningId(id)
+        setError(null)
+
+        try {
+            const response = await fetch(`/api/saved-searches/${id}/run`, { method: "POST" })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            await fetchSavedSearches()
+        } catch (err: unknown) {
+            console.error("Error running saved search:", err)
+            setError("Failed to run the saved search")
+        } finally {
+            setRunningId(null)
+        }
+    }
+
+    const remove = async (id: string) => {
+        setError(null)
+
+        try {
+            const response = await fetch(`/api/saved-searches/${id}`, { method: "DELETE" })
+
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`)
+            }
+
+            setSavedSearches((current) => current.filter((savedSearch) => savedSearch.id !== id))
+        } catch (err: unknown) {
+            console.error("Error deleting saved search:", err)
+            setError("Failed to delete the saved search")
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div className="space-y-4">
+                {[1, 2].map((i) => (
+                    <JobSkeleton key={i} />
+                ))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && (
+                <Alert className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {savedSearches.length === 0 ? (
+                <Card className="border-dashed">
+                    <CardContent className="pt-6 text-center text-muted-foreground">
+                        Run a search and use &quot;Save Search&quot; to have it re-run automatically
+                    </CardContent>
+                </Card>
+            ) : (
+                savedSearches.map((savedSearch) => (
+                    <Card key={savedSearch.id}>
+                        <CardHeader className="pb-3">
+                            <CardTitle className="text-lg">{savedSearch.name}</CardTitle>
+                            <CardDescription>
+                                &quot;{savedSearch.options.keywords}&quot;
+                                {savedSearch.options.location && ` in ${formatLocations(savedSearch.options.location)}`} · runs{" "}
+                                {formatInterval(savedSearch.intervalMinutes)} · next run{" "}
+                                {new Date(savedSearch.nextRunAt).toLocaleString()}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="pb-3">
+                            {savedSearch.runs.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">Not run yet</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="text-muted-foreground text-left">
+                                        <tr>
+                                            <th className="font-normal pb-1">Run</th>
+                                            <th className="font-normal pb-1">Jobs</th>
+                                            <th className="font-normal pb-1">New</th>
+                                            <th className="font-normal pb-1">Hidden</th>
+                                            <th className="font-normal pb-1">Status</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {savedSearch.runs.slice(0, VISIBLE_RUNS).map((run) => (
+                                            <tr key={run.id}>
+                                                <td>{new Date(run.startedAt).toLocaleString()}</td>
+                                                <td>{run.jobCount}</td>
+                                                <td>{run.newJobs.length}</td>
+                                                <td title="Hidden by company rules">{run.hiddenByCompanyRules || 0}</td>
+                                                <td>
+                                                    {run.error && run.jobCount > 0 ? (
+                                                        // Some locations of a multi-location search failed
+                                                        <Badge variant="secondary" title={run.error}>
+                                                            Partial
+                                                        </Badge>
+                                                    ) : run.error ? (
+                                                        <Badge variant="destructive" title={run.error}>
+                                                            Failed
+                                                        </Badge>
+                                                    ) : (
+                                                        <Badge variant="outline">OK</Badge>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </CardContent>
+                        <CardFooter className="flex justify-between">
+                            <Button size="sm" onClick={() => runNow(savedSearch.id)} disabled={runningId !== null}>
+                                <Play className="h-3.5 w-3.5 mr-1" />
+                                {runningId === savedSearch.id ? "Running..." : "Run Now"}
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Delete saved search"
+                                onClick={() => remove(savedSearch.id)}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </CardFooter>
+                    </Card>
+                ))
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { Job } from "@/types/job"
+import type { SavedJob } from "@/lib/saved-jobs"
+
+// Saved jobs from /api/saved-jobs, with optimistic save/unsave
+export function useSavedJobs() {
+    const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchSavedJobs = async () => {
+            try {
+                const response = await fetch("/api/saved-jobs")
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+
+                const data = await response.json()
+                setSavedJobs(data.savedJobs || [])
+            } catch (err: unknown) {
+                console.error("Error fetching saved jobs:", err)
+                setError("Failed to load saved jobs")
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchSavedJobs()
+    }, [])
+
+    const savedJobIds = new Set(savedJobs.map((savedJob) => savedJob.job.id))
+
+    const toggleSaved = useCallback(
+        async (job: Job) => {
+            const removed = savedJobs.find((savedJob) => savedJob.job.id === job.id)
+            const isSaved = removed !== undefined
+            const withoutJob = (current: SavedJob[]) => current.filter((savedJob) => savedJob.job.id !== job.id)
+
+            // Update the UI first and roll back if the request fails
+            setSavedJobs((current) =>
+                isSaved ? withoutJob(current) : [{ job, savedAt: new Date().toISOString() }, ...withoutJob(current)],
+            )
+
+            try {
+                const response = isSaved
+                    ? await fetch(`/api/saved-jobs?id=${encodeURIComponent(job.id)}`, { method: "DELETE" })
+                    : await fetch("/api/saved-jobs", {
+                          method: "POST",
+                          headers: { "Content-Type": "application/json" },
+                          body: JSON.stringify({ job }),
+                      })
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+            } catch (err: unknown) {
+                console.error("Error updating saved jobs:", err)
+                // Undo only this change, keeping any other toggle that finished in the meantime
+                setSavedJobs((current) =>
+                    removed
+                        ? [...withoutJob(current), removed].sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+                        : withoutJob(current),
+                )
+                setError(isSaved ? "Failed to remove saved job" : "Failed to save job")
+            }
+        },
+        [savedJobs],
+    )
+
+    return { savedJobs, savedJobIds, isLoading, error, toggleSaved }
+}
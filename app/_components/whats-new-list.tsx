@@ -0,0 +1,85 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertCircle } from "lucide-react"
+
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { JobSkeleton } from "./job-skeleton"
+import { JobCard } from "./job-card"
+import { useSavedJobs } from "./use-saved-jobs"
+import type { WhatsNewEntry } from "@/lib/saved-searches"
+
+export function WhatsNewList() {
+    const [entries, setEntries] = useState<WhatsNewEntry[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const { savedJobIds, toggleSaved } = useSavedJobs()
+
+    useEffect(() => {
+        const fetchNewJobs = async () => {
+            try {
+                const response = await fetch("/api/whats-new")
+
+                if (!response.ok) {
+                    throw new Error(`API error: ${response.status}`)
+                }
+
+                const data = await response.json()
+                setEntries(data.newJobs || [])
+            } catch (err: unknown) {
+                console.error("Error fetching new jobs:", err)
+                setError("Failed to load new jobs")
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchNewJobs()
+    }, [])
+
+    if (isLoading) {
+        return (
+            <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                    <JobSkeleton key={i} />
+                ))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">New in the last 7 days</h2>
+                <p className="text-sm text-muted-foreground">{entries.length} new jobs</p>
+            </div>
+
+            {error && (
+                <Alert className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {entries.length === 0 ? (
+                <Card className="border-dashed">
+                    <CardContent className="pt-6 text-center text-muted-foreground">
+                        No new jobs from your saved searches yet
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="grid grid-cols-1 gap-4">
+                    {entries.map(({ savedSearch, job, foundAt }) => (
+                        <div key={`${savedSearch.id}-${job.id}`} className="space-y-1">
+                            <p className="text-xs text-muted-foreground">
+                                {savedSearch.name} · found {new Date(foundAt).toLocaleString()}
+                            </p>
+                            <JobCard job={job} isSaved={savedJobIds.has(job.id)} onToggleSaved={() => toggleSaved(job)} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,284 +1,474 @@
-import type { Job, ScrapeOptions } from "@/types/job"
+import type { Job, ScrapeOptions, SingleLocationScrapeOptions } from "@/types/job"
 import { cache } from "react"
-import * as playwright from "playwright"
+import { createCache, type CacheMetadata } from "@/lib/cache"
+import { extractSkills } from "@/lib/skills"
+import { formatSalaryRange, parseSalary } from "@/lib/salary"
+import { dedupeJobs } from "@/lib/dedupe"
+import { applyCompanyRules, filterJobsByCompanyRules, listCompanyRules } from "@/lib/company-rules"
+import {
+    filterJobsByKeywordQuery,
+    parseKeywordQuery,
+    type FilteredOutJob,
+    type KeywordQuery,
+} from "@/lib/keyword-query"
+import { toLocationList } from "@/lib/search-filters"
+import { NoResultsError, ScrapeError, toScrapeError } from "@/lib/scrape-errors"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { createSingleFlight, type SingleFlight, type SingleFlightStats } from "@/lib/single-flight"
+import {
+    crawlJobSource,
+    enrichJobDetails,
+    getJobSource,
+    isJobSourceId,
+    MAX_BACKGROUND_CRAWL_DEPTH,
+    type JobSource,
+    type JobSourceId,
+} from "@/lib/sources"
 
 // Cache results for 30 minutes to reduce scraping frequency
 const CACHE_TIME = 30 * 60 * 1000 // 30 minutes
 
-// In-memory cache for development
-const jobCache = new Map<string, { jobs: Job[]; timestamp: number; totalCount: number }>()
+// Searches limited to the past 24 hours go out of date sooner
+const RECENT_CACHE_TIME = 10 * 60 * 1000 // 10 minutes
+
+// Expired results are still served for a day while they are refreshed in the background
+const STALE_TIME = 24 * 60 * 60 * 1000 // 24 hours
+
+// Locations of a multi-location search scraped at the same time
+const MAX_CONCURRENT_LOCATIONS = 2
+
+// Skill badges shown per job card
+const MAX_SKILLS_PER_JOB = 8
+
+interface SearchResult {
+    jobs: Job[]
+    totalCount: number
+    // Number of result pages the jobs were merged from
+    pagesCrawled: number
+}
+
+// How long a search's results stay fresh in the cache
+export function searchCacheTime({
+    datePosted,
+    postedWithinHours,
+}: Pick<ScrapeOptions, "datePosted" | "postedWithinHours">): number {
+    const recent = postedWithinHours ? postedWithinHours <= 24 : datePosted === "past24hours"
+    return recent ? RECENT_CACHE_TIME : CACHE_TIME
+}
+
+// Persistent cache shared by every server using the same cache directory
+const jobCache = createCache<SearchResult>({
+    namespace: "searches",
+    ttl: CACHE_TIME,
+    staleTtl: STALE_TIME,
+    maxEntries: 500,
+})
+
+// Progress of one location's scrape, reported to every request waiting on it
+interface SearchProgress {
+    // Jobs parsed from a result page, not yet merged with the other pages
+    page(jobs: Job[]): void
+    details(done: number, total: number): void
+}
+
+// Scrapes in progress per cache key, shared by every request and background refresh that needs them,
+// and the progress listeners of those requests. Kept on globalThis because each route bundles its own
+// copy of this module.
+const globalForScrapes = globalThis as typeof globalThis & {
+    scrapesInFlight?: SingleFlight<SearchResult>
+    progressListeners?: Map<string, Set<SearchProgress>>
+}
+const scrapesInFlight = (globalForScrapes.scrapesInFlight ??= createSingleFlight<SearchResult>())
+const progressListeners = (globalForScrapes.progressListeners ??= new Map())
+
+export interface ScrapeJobsResult {
+    jobs: Job[]
+    totalCount: number
+    // Set when the results came from the cache; `stale` results are being refreshed
+    cache: CacheMetadata | null
+    // Number of result pages the jobs were merged from
+    pagesCrawled: number
+    // Source that served the results
+    source: JobSourceId
+    // Jobs removed by the company allowlist and blocklist
+    hiddenByCompanyRules: number
+    // Jobs LinkedIn returned that fail the full keyword expression
+    filteredOut: FilteredOutJob[]
+    // Locations of a multi-location search that failed while others returned jobs. A search that fails
+    // outright throws a ScrapeError instead.
+    error?: string
+}
+
+export interface ScrapeJobsOptions {
+    // Scrape even when cached results exist, e.g. for scheduled re-runs
+    skipCache?: boolean
+    // Stop waiting for the results, e.g. when the request times out. A scrape other callers
+    // are waiting on keeps running for them.
+    signal?: AbortSignal
+    // Called as the scrape advances; results served from the cache arrive without progress
+    onProgress?: (event: ScrapeProgressEvent) => void
+}
+
+export type ScrapeProgressEvent =
+    // Jobs from a result page, filtered by the keyword query and company rules like the final results,
+    // but not yet deduplicated. A job can arrive again from another location.
+    | { type: "jobs"; jobs: Job[] }
+    // Result pages crawled and postings opened, summed over all locations
+    | { type: "pages" | "details"; done: number; total: number }
+
+// How many requests shared a scrape already in progress, for tuning and monitoring
+export function getScrapeStats(): SingleFlightStats {
+    return scrapesInFlight.stats()
+}
 
 // Create a cached version of the scrape function
-export const scrapeLinkedInJobs = cache(async function scrapeLinkedInJobsInternal({
-    keywords,
-    location = "",
-    jobType = "all",
-    datePosted = "anytime",
-}: ScrapeOptions): Promise<{ jobs: Job[]; totalCount: number; isFromCache: boolean; error?: string }> {
-    // Create a cache key based on search parameters
-    const cacheKey = `${keywords}-${location}-${jobType}-${datePosted}`
+export const scrapeLinkedInJobs = cache(async function scrapeLinkedInJobsInternal(
+    options: ScrapeOptions,
+    scrapeOptions: ScrapeJobsOptions = {},
+): Promise<ScrapeJobsResult> {
+    // LinkedIn only sees a simplified query, so check the full expression here
+    const keywordQuery = parseKeywordQuery(options.keywords)
+    const query = keywordQuery.error === undefined ? keywordQuery.query : undefined
+
+    const progress = scrapeOptions.onProgress
+        ? await createProgressReporter(options, query, scrapeOptions.onProgress)
+        : undefined
+    const result = await scrapeLocations(options, scrapeOptions, progress)
+
+    const keywordMatches = query ? filterJobsByKeywordQuery(result.jobs, query) : { jobs: result.jobs, filteredOut: [] }
+
+    // Rules can change at any time, so they apply to results on the way out rather than to the cache.
+    // They run before near-identical postings are grouped, so blocking an agency that reposted a job
+    // does not also hide the employer's own posting.
+    const { jobs: allowedJobs, hidden } = await applyCompanyRules(keywordMatches.jobs)
+    const jobs = dedupeJobs(allowedJobs, options.dedupeThreshold)
+
+    return {
+        ...result,
+        jobs,
+        totalCount: jobs.length,
+        hiddenByCompanyRules: hidden,
+        filteredOut: keywordMatches.filteredOut,
+    }
+})
 
-    // Check if we have cached results
-    const cachedResult = jobCache.get(cacheKey)
-    if (cachedResult && Date.now() - cachedResult.timestamp < CACHE_TIME) {
-        console.log("Using cached results for", cacheKey)
-        return {
-            jobs: cachedResult.jobs,
-            totalCount: cachedResult.totalCount,
-            isFromCache: true,
-        }
+// Turn the progress of each location's scrape into one caller's events: counts are summed over
+// locations, and jobs are filtered the way the final results will be
+async function createProgressReporter(
+    options: ScrapeOptions,
+    keywordQuery: KeywordQuery | undefined,
+    onProgress: (event: ScrapeProgressEvent) => void,
+): Promise<(location: string) => SearchProgress> {
+    const rules = await listCompanyRules()
+    const locationCount = Math.max(1, toLocationList(options.location).length)
+    const totalPages = locationCount * Math.min(MAX_BACKGROUND_CRAWL_DEPTH, Math.max(1, options.depth || 1))
+    let pagesDone = 0
+    const detailsByLocation = new Map<string, { done: number; total: number }>()
+
+    return (location) => ({
+        page(jobs) {
+            const matching = keywordQuery ? filterJobsByKeywordQuery(jobs, keywordQuery).jobs : jobs
+            const kept = filterJobsByCompanyRules(matching, rules).jobs
+
+            if (kept.length > 0) onProgress({ type: "jobs", jobs: kept })
+            onProgress({ type: "pages", done: ++pagesDone, total: totalPages })
+        },
+        details(done, total) {
+            detailsByLocation.set(location, { done, total })
+
+            const counts = [...detailsByLocation.values()]
+            onProgress({
+                type: "details",
+                done: counts.reduce((sum, count) => sum + count.done, 0),
+                total: counts.reduce((sum, count) => sum + count.total, 0),
+            })
+        },
+    })
+}
+
+type LocationResult = Omit<ScrapeJobsResult, "hiddenByCompanyRules" | "filteredOut">
+
+// Search each location on its own, so every one is cached separately, then merge the results
+async function scrapeLocations(
+    options: ScrapeOptions,
+    scrapeOptions: ScrapeJobsOptions,
+    progress?: (location: string) => SearchProgress,
+): Promise<LocationResult> {
+    const locations = toLocationList(options.location)
+
+    if (locations.length <= 1) {
+        const location = locations[0] || ""
+        return scrapeOrReadCache({ ...options, location }, scrapeOptions, progress?.(location))
     }
 
-    try {
-        // Use Playwright to scrape LinkedIn
-        console.log("Scraping LinkedIn with Playwright for:", keywords, location, jobType, datePosted)
+    const settled = await mapWithConcurrency(locations, MAX_CONCURRENT_LOCATIONS, (location) =>
+        scrapeOrReadCache({ ...options, location }, scrapeOptions, progress?.(location)).catch(toScrapeError),
+    )
 
-        // Build LinkedIn search URL
-        let searchUrl = `https://www.linkedin.com/jobs/search/?keywords=${encodeURIComponent(keywords)}`
+    const results = settled.filter((result): result is LocationResult => !(result instanceof ScrapeError))
+    // A location without jobs is not a failure while another location has some
+    const failures = settled.flatMap((result, i) =>
+        result instanceof ScrapeError && !(result instanceof NoResultsError) ? [{ location: locations[i], error: result }] : [],
+    )
 
-        if (location) {
-            searchUrl += `&location=${encodeURIComponent(location)}`
-        }
+    if (results.length === 0) {
+        throw failures[0]?.error ?? new NoResultsError()
+    }
 
-        // Add job type filter
-        if (jobType !== "all") {
-            const jobTypeMap: Record<string, string> = {
-                fulltime: "F",
-                parttime: "P",
-                contract: "C",
-                temporary: "T",
-                internship: "I",
-                remote: "R",
-            }
-
-            if (jobTypeMap[jobType]) {
-                searchUrl += `&f_JT=${jobTypeMap[jobType]}`
-            }
+    const jobs = mergeLocationJobs(
+        results.map((result) => ({ location: locations[settled.indexOf(result)], jobs: result.jobs })),
+    )
+    // Report a location that failed without hiding what the others found
+    const errors = failures.map(({ location, error }) => `${location}: ${error.message}`)
+    const cached = results.map((result) => result.cache)
+
+    return {
+        jobs,
+        totalCount: jobs.length,
+        // Only reported when every location came from the cache, using the oldest entry
+        cache: failures.length === 0 && cached.every((metadata) => metadata !== null)
+            ? {
+                  cachedAt: cached.map((metadata) => metadata.cachedAt).sort()[0],
+                  expiresAt: cached.map((metadata) => metadata.expiresAt).sort()[0],
+                  stale: cached.some((metadata) => metadata.stale),
+              }
+            : null,
+        pagesCrawled: results.reduce((sum, result) => sum + result.pagesCrawled, 0),
+        source: results[0].source,
+        ...(errors.length > 0 ? { error: errors.join(" ") } : {}),
+    }
+}
+
+// Take turns between locations so each one's best matches come first. A posting several locations
+// returned is kept once with all of them; near-identical postings are merged later, as in one search.
+function mergeLocationJobs(results: { location: string; jobs: Job[] }[]): Job[] {
+    const byId = new Map<string, Job>()
+    const longest = Math.max(...results.map((result) => result.jobs.length))
+
+    for (let i = 0; i < longest; i++) {
+        for (const { location, jobs } of results) {
+            const job = jobs[i]
+            if (!job) continue
+
+            const existing = byId.get(job.id)
+            byId.set(
+                job.id,
+                existing
+                    ? { ...existing, queryLocations: [...(existing.queryLocations || []), location] }
+                    : { ...job, queryLocations: [location] },
+            )
         }
+    }
 
-        // Add date posted filter
-        if (datePosted !== "anytime") {
-            const datePostedMap: Record<string, string> = {
-                past24hours: "r86400",
-                pastWeek: "r604800",
-                pastMonth: "r2592000",
-            }
-
-            if (datePostedMap[datePosted]) {
-                searchUrl += `&f_TPR=${datePostedMap[datePosted]}`
-            }
-        }
+    return [...byId.values()]
+}
+
+// Serve the search from the cache, or scrape it and cache the results
+async function scrapeOrReadCache({
+    keywords,
+    location = "",
+    jobType = "all",
+    datePosted = "anytime",
+    postedWithinHours,
+    experienceLevels = [],
+    workplaceTypes = [],
+    distance,
+    sortBy,
+    page = 1,
+    depth = 1,
+    includeDetails = false,
+    source: sourceId,
+}: SingleLocationScrapeOptions,
+    { skipCache = false, signal }: ScrapeJobsOptions,
+    progress?: SearchProgress,
+): Promise<LocationResult> {
+    const source = getJobSource(isJobSourceId(sourceId) ? sourceId : undefined)
+
+    // Create a cache key based on search parameters. Spacing and the case of the location do not change
+    // what LinkedIn returns, so they do not split the cache or concurrent scrapes either.
+    const normalizedKeywords = keywords.trim().replace(/\s+/g, " ")
+    const normalizedLocation = location.trim().replace(/\s+/g, " ").toLowerCase()
+    const filters = `${postedWithinHours ?? ""}-${experienceLevels.join(",")}-${workplaceTypes.join(",")}-${distance ?? ""}-${sortBy ?? ""}`
+    const cacheKey = `${source.id}-${normalizedKeywords}-${normalizedLocation}-${jobType}-${datePosted}-${filters}-${page}-${depth}-${includeDetails ? "details" : "cards"}`
+
+    const options = {
+        keywords,
+        location,
+        jobType,
+        datePosted,
+        postedWithinHours,
+        experienceLevels,
+        workplaceTypes,
+        distance,
+        sortBy,
+        page,
+        depth,
+        includeDetails,
+    }
+    const ttl = searchCacheTime({ datePosted, postedWithinHours })
 
-        const { jobs, totalCount } = await scrapeWithPlaywright(searchUrl)
+    // Check if we have cached results
+    const cachedResult = skipCache ? undefined : await jobCache.get(cacheKey)
+    if (cachedResult) {
+        console.log("Using cached results for", cacheKey, cachedResult.metadata.stale ? "(stale)" : "")
 
-        // Cache the results
-        jobCache.set(cacheKey, {
-            jobs,
-            timestamp: Date.now(),
-            totalCount,
-        })
+        // Serve stale results right away and refresh them for the next request
+        if (cachedResult.metadata.stale) {
+            revalidateInBackground(cacheKey, source, options, ttl)
+        }
 
         return {
-            jobs,
-            totalCount,
-            isFromCache: false,
+            ...cachedResult.value,
+            cache: cachedResult.metadata,
+            source: source.id,
         }
-    } catch (err: unknown) {
-        console.error("Error during scraping:", err)
-
-        let errorMessage = "Failed to retrieve job listings from LinkedIn. Showing mock data instead."
-
-        if (err instanceof Error) {
-            if (err.message.includes("timeout")) {
-                errorMessage = "LinkedIn scraping timed out. Showing mock data instead. Try a more specific search."
-            } else if (err.message.includes("navigation")) {
-                errorMessage = "Failed to access LinkedIn. Showing mock data instead. Please try again later."
-            } else {
-                errorMessage = `LinkedIn scraping error: ${err.message}. Showing mock data instead.`
-            }
+    }
+
+    try {
+        if (scrapesInFlight.has(cacheKey)) {
+            console.log("Waiting on the scrape already in progress for", cacheKey)
         }
 
+        const result = await withProgressListener(cacheKey, progress, () =>
+            scrapeAndCache(cacheKey, source, options, ttl, signal),
+        )
+
         return {
-            jobs: [],
-            totalCount: 0,
-            isFromCache: false,
-            error: errorMessage,
+            ...result,
+            cache: null,
+            source: source.id,
         }
+    } catch (err: unknown) {
+        const error = toScrapeError(err)
+        // An empty search is expected now and then, so it is not logged as a failure
+        if (!(error instanceof NoResultsError)) console.error("Error during scraping:", err)
+        throw error
     }
-})
-
-// Scrape with Playwright (browser automation)
-async function scrapeWithPlaywright(url: string): Promise<{ jobs: Job[]; totalCount: number }> {
-    // Add a timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error("Scraping timeout after 25 seconds")), 25000)
+}
+
+// Crawl the source, then enrich and tag the jobs
+async function searchJobs(
+    source: JobSource,
+    options: SingleLocationScrapeOptions,
+    signal?: AbortSignal,
+    progress?: SearchProgress,
+): Promise<SearchResult> {
+    const crawl = await crawlJobSource(source, options, {
+        signal,
+        onPage: progress?.page,
     })
 
-    const scrapePromise = (async () => {
-        // Launch browser with specific options to avoid detection
-        const browser = await playwright.chromium.launch({
-            headless: true,
-            args: [
-                "--disable-blink-features=AutomationControlled",
-                "--no-sandbox",
-                "--disable-setuid-sandbox",
-                "--disable-dev-shm-usage",
-                "--disable-accelerated-2d-canvas",
-                "--no-first-run",
-                "--no-zygote",
-                "--disable-gpu",
-                "--hide-scrollbars",
-                "--mute-audio",
-            ],
-        })
-
-        try {
-            // Create a new context with specific options
-            const context = await browser.newContext({
-                userAgent:
-                    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36",
-                viewport: { width: 1920, height: 1080 },
-                deviceScaleFactor: 1,
-                hasTouch: false,
-                isMobile: false,
-                locale: "en-US",
-                timezoneId: "America/New_York",
-            })
+    // Optionally open every posting for its full description and criteria
+    const enrichedJobs = options.includeDetails
+        ? await enrichJobDetails(source, crawl.jobs, { signal, onProgress: progress?.details })
+        : crawl.jobs
 
-            // Add extra headers to appear more like a real browser
-            await context.setExtraHTTPHeaders({
-                "Accept-Language": "en-US,en;q=0.9",
-                Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
-                "Sec-Fetch-Dest": "document",
-                "Sec-Fetch-Mode": "navigate",
-                "Sec-Fetch-Site": "none",
-                "Sec-Fetch-User": "?1",
-                "Upgrade-Insecure-Requests": "1",
-            })
+    // Left uncached, as an empty page can also be a passing hiccup
+    if (enrichedJobs.length === 0) {
+        throw new NoResultsError(`${source.label} listed no jobs for this search`)
+    }
 
-            // Create a new page
-            const page = await context.newPage()
-
-            // Set a shorter timeout for navigation
-            page.setDefaultNavigationTimeout(15000)
-            page.setDefaultTimeout(10000)
-
-            // Navigate to the URL
-            await page.goto(url, { waitUntil: "domcontentloaded" })
-
-            // Wait for the job listings to load with a more reliable selector
-            await page
-                .waitForSelector(".jobs-search__results-list, .jobs-search-results-list", { timeout: 10000 })
-                .catch(() => {
-                    console.log("Timeout waiting for job listings, will try to extract anyway")
-                })
-
-            // Add a small delay to let dynamic content load
-            await page.waitForTimeout(1000)
-
-            console.log("Page loaded, extracting job data...")
-
-            // Extract job data
-            const result = await page.evaluate(() => {
-                // Try different selectors for job listings to improve reliability
-                const jobListingsSelectors = [
-                    ".jobs-search__results-list > li",
-                    ".jobs-search-results-list > li",
-                    "[data-job-id]",
-                ]
-
-                let jobListings: Element[] = []
-
-                // Try each selector until we find job listings
-                for (const selector of jobListingsSelectors) {
-                    const elements = Array.from(document.querySelectorAll(selector))
-                    if (elements.length > 0) {
-                        jobListings = elements
-                        break
-                    }
-                }
-
-
-                return {
-                    jobs: jobListings.slice(0, 25).map((job) => {
-                        // Try different selectors for each element to improve reliability
-                        const titleElement = job.querySelector(
-                            ".base-search-card__title, .job-card-list__title, .job-card-container__link",
-                        )
-                        const companyElement = job.querySelector(
-                            ".base-search-card__subtitle, .job-card-container__company-name, .job-card-container__primary-description",
-                        )
-                        const locationElement = job.querySelector(
-                            ".job-search-card__location, .job-card-container__metadata-item, .job-card-container__metadata-wrapper span",
-                        )
-                        const linkElement = job.querySelector(
-                            "a.base-card__full-link, a.job-card-list__title, a.job-card-container__link",
-                        ) as HTMLAnchorElement
-                        const logoElement = job.querySelector(
-                            ".artdeco-entity-image, .job-card-container__company-logo",
-                        ) as HTMLImageElement
-                        const dateElement = job.querySelector(
-                            "time.job-search-card__listdate, .job-card-container__posted-date, .job-card-container__metadata-item--posted-date",
-                        )
-
-                        // Generate a job type based on the title
-                        const title = titleElement?.textContent?.trim() || ""
-                        let jobType = "Full-time"
-
-                        if (title.toLowerCase().includes("part-time") || title.toLowerCase().includes("part time")) {
-                            jobType = "Part-time"
-                        } else if (title.toLowerCase().includes("contract")) {
-                            jobType = "Contract"
-                        } else if (title.toLowerCase().includes("intern")) {
-                            jobType = "Internship"
-                        } else if (title.toLowerCase().includes("remote")) {
-                            jobType = "Remote"
-                        }
-
-                        // Generate random skills based on the job title
-                        const skillSets = [
-                            ["JavaScript", "React", "Node.js", "TypeScript"],
-                            ["Python", "Django", "Flask", "AWS"],
-                            ["Java", "Spring", "Hibernate", "Microservices"],
-                            ["C#", ".NET", "Azure", "SQL Server"],
-                            ["Go", "Docker", "Kubernetes", "CI/CD"],
-                        ]
-
-                        const randomIndex = Math.floor(Math.random() * skillSets.length)
-                        const location = locationElement?.textContent?.trim() || "Unknown Location"
-
-                        return {
-                            id: Math.random().toString(36).substring(2, 15),
-                            title: titleElement?.textContent?.trim() || "Unknown Position",
-                            company: companyElement?.textContent?.trim() || "Unknown Company",
-                            location: location,
-                            jobType,
-                            datePosted: dateElement?.textContent?.trim() || "Recently posted",
-                            description:
-                                "This position requires expertise in various technologies. Click to view the full job description.",
-                            url: linkElement?.href || "#",
-                            logoUrl: logoElement?.src || undefined,
-                            skills: skillSets[randomIndex],
-                        }
-                    }),
-                }
-            })
+    // Postings are cached ungrouped; duplicates are merged after company rules on the way out
+    const jobs = tagSalaries(tagSkills(enrichedJobs))
 
-            return {
-                jobs: result.jobs,
-                totalCount: result.jobs.length || 0,
-            }
-        } finally {
-            // Always close the browser to prevent memory leaks
-            await browser.close()
+    return {
+        jobs,
+        totalCount: jobs.length,
+        pagesCrawled: crawl.pagesCrawled,
+    }
+}
+
+// Scrape and cache a search. Identical searches arriving together share one scrape.
+function scrapeAndCache(
+    cacheKey: string,
+    source: JobSource,
+    options: SingleLocationScrapeOptions,
+    ttl: number,
+    signal?: AbortSignal,
+): Promise<SearchResult> {
+    return scrapesInFlight.run(
+        cacheKey,
+        async (scrapeSignal) => {
+            const { keywords, location, jobType, datePosted, page, depth } = options
+            console.log(`Scraping ${source.label} for:`, keywords, location, jobType, datePosted, { page, depth })
+
+            const result = await searchJobs(source, options, scrapeSignal, broadcastProgress(cacheKey))
+
+            // Cache the results
+            await jobCache.set(cacheKey, result, { ttl })
+            return result
+        },
+        signal,
+    )
+}
+
+// Listen to the progress of the scrape for `cacheKey` while `fn` runs, whether that scrape starts now or is joined
+async function withProgressListener<T>(
+    cacheKey: string,
+    progress: SearchProgress | undefined,
+    fn: () => Promise<T>,
+): Promise<T> {
+    if (!progress) return fn()
+
+    const listeners = progressListeners.get(cacheKey) ?? new Set<SearchProgress>()
+    listeners.add(progress)
+    progressListeners.set(cacheKey, listeners)
+
+    try {
+        return await fn()
+    } finally {
+        listeners.delete(progress)
+        if (listeners.size === 0 && progressListeners.get(cacheKey) === listeners) {
+            progressListeners.delete(cacheKey)
         }
-    })()
-
-    // Race the scraping against the timeout
-    return Promise.race([
-        scrapePromise,
-        timeoutPromise.then(() => {
-            throw new Error("Scraping timeout")
-        }),
-    ])
-}
\ No newline at end of file
+    }
+}
+
+// Forward a scrape's progress to whichever requests are listening at the time
+function broadcastProgress(cacheKey: string): SearchProgress {
+    const listeners = () => [...(progressListeners.get(cacheKey) ?? [])]
+
+    return {
+        page(jobs) {
+            const current = listeners()
+            if (current.length === 0) return
+
+            // Tagged like the final results, so salary filters and skill badges work on them
+            const tagged = tagSalaries(tagSkills(jobs))
+            current.forEach((listener) => listener.page(tagged))
+        },
+        details: (done, total) => listeners().forEach((listener) => listener.details(done, total)),
+    }
+}
+
+// Refresh a stale entry without making the caller wait; failures keep the stale entry
+function revalidateInBackground(
+    cacheKey: string,
+    source: JobSource,
+    options: SingleLocationScrapeOptions,
+    ttl: number,
+) {
+    if (scrapesInFlight.has(cacheKey)) return
+
+    scrapeAndCache(cacheKey, source, options, ttl).catch((err) =>
+        console.error("Background refresh failed for", cacheKey, err),
+    )
+}
+
+// Read a structured salary from the card's salary text, falling back to the description
+function tagSalaries(jobs: Job[]): Job[] {
+    return jobs.map((job) => {
+        const salaryRange = (job.salary && parseSalary(job.salary)) || parseSalary(job.description)
+        if (!salaryRange) return job
+
+        return { ...job, salary: job.salary || formatSalaryRange(salaryRange), salaryRange }
+    })
+}
+
+// Tag every job with the skills its title and description mention, best match first
+function tagSkills(jobs: Job[]): Job[] {
+    return jobs.map((job) => ({
+        ...job,
+        skills: extractSkills(job, { limit: MAX_SKILLS_PER_JOB }).map((skill) => skill.name),
+    }))
+}
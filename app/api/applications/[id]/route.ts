@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { changeApplicationStage, deleteApplication, getApplication, isApplicationStage } from "@/lib/applications"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const application = await getApplication(id)
+
+    if (!application) {
+        return NextResponse.json({ error: "Application not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ application })
+}
+
+// Change the stage (or add a note to the current one) with `{ stage, note }`
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const note = typeof body?.note === "string" ? body.note.trim() : undefined
+
+    if (!isApplicationStage(body?.stage)) {
+        return NextResponse.json({ error: `Unknown stage: ${body?.stage}` }, { status: 400 })
+    }
+
+    const application = await changeApplicationStage(id, body.stage, note)
+
+    if (!application) {
+        return NextResponse.json({ error: "Application not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ application })
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+
+    if (!(await deleteApplication(id))) {
+        return NextResponse.json({ error: "Application not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id })
+}
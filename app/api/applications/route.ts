@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createApplication, isApplicationStage, listApplications } from "@/lib/applications"
+import { getSavedJob, isJob, saveJob } from "@/lib/saved-jobs"
+
+export async function GET() {
+    const applications = await listApplications()
+    return NextResponse.json({ applications })
+}
+
+// Track a saved job. Send `jobId` for a job that is already saved, or `job` to save it first.
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null)
+    const stage = body?.stage ?? "interested"
+    const note = typeof body?.note === "string" ? body.note.trim() : undefined
+
+    if (!isApplicationStage(stage)) {
+        return NextResponse.json({ error: `Unknown stage: ${stage}` }, { status: 400 })
+    }
+
+    let savedJob
+    if (isJob(body?.job)) {
+        savedJob = (await getSavedJob(body.job.id)) || (await saveJob(body.job))
+    } else if (typeof body?.jobId === "string") {
+        savedJob = await getSavedJob(body.jobId)
+        if (!savedJob) {
+            return NextResponse.json({ error: "Saved job not found" }, { status: 404 })
+        }
+    } else {
+        return NextResponse.json({ error: "A jobId or job is required" }, { status: 400 })
+    }
+
+    const { application, created } = await createApplication(savedJob, stage, note)
+    return NextResponse.json({ application }, { status: created ? 201 : 200 })
+}
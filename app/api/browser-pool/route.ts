@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { getBrowserPoolStats } from "@/lib/browser-pool"
+
+// Report how busy the shared browser pool is; `pool` is null until the first scrape starts it
+export async function GET() {
+    return NextResponse.json({ pool: getBrowserPoolStats() }, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,12 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteCompanyRule } from "@/lib/company-rules"
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+
+    if (!(await deleteCompanyRule(id))) {
+        return NextResponse.json({ error: "Company rule not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id })
+}
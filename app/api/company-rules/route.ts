@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+    COMPANY_RULE_LISTS,
+    COMPANY_RULE_MATCHES,
+    createCompanyRule,
+    isCompanyRuleList,
+    isCompanyRuleMatch,
+    listCompanyRules,
+    validateCompanyRulePattern,
+} from "@/lib/company-rules"
+
+export async function GET() {
+    return NextResponse.json({ rules: await listCompanyRules() })
+}
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null)
+    const list = body?.list ?? "block"
+    const match = body?.match ?? "normalized"
+    const pattern = typeof body?.pattern === "string" ? body.pattern : ""
+
+    if (!isCompanyRuleList(list)) {
+        return NextResponse.json({ error: `List must be one of ${COMPANY_RULE_LISTS.join(", ")}` }, { status: 400 })
+    }
+
+    if (!isCompanyRuleMatch(match)) {
+        return NextResponse.json({ error: `Match must be one of ${COMPANY_RULE_MATCHES.join(", ")}` }, { status: 400 })
+    }
+
+    const patternError = validateCompanyRulePattern(match, pattern)
+
+    if (patternError) {
+        return NextResponse.json({ error: patternError }, { status: 400 })
+    }
+
+    const rule = await createCompanyRule(list, match, pattern)
+
+    return NextResponse.json({ rule }, { status: 201 })
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { scrapeLinkedInJobs } from "@/app/actions/scrape-jobs"
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, isExportFormat, streamJobsExport } from "@/lib/export"
+import { getRequestId, scrapeErrorResponse, searchResultHeaders } from "@/lib/jobs-response"
+import { applyResultFilters } from "@/lib/result-filters"
+import { ScrapeError, toScrapeError } from "@/lib/scrape-errors"
+import { parseResultFilters, parseScrapeOptions } from "@/lib/search-params"
+
+export const maxDuration = 60 // Set max duration to 60 seconds for Edge functions
+
+// Download the results of a search; takes the /api/jobs query parameters plus `format`
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get("format") || "csv"
+
+    if (!isExportFormat(format)) {
+        return NextResponse.json({ error: `Format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    const parsed = parseScrapeOptions(searchParams)
+
+    if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const parsedFilters = parseResultFilters(searchParams)
+
+    if (parsedFilters.error !== undefined) {
+        return NextResponse.json({ error: parsedFilters.error }, { status: 400 })
+    }
+
+    const requestId = getRequestId(request)
+    // Stop waiting when the client goes away or the request takes too long
+    const signal = AbortSignal.any([request.signal, AbortSignal.timeout(50000)])
+    const result = await scrapeLinkedInJobs(parsed.options, { signal }).catch(toScrapeError)
+
+    if (result instanceof ScrapeError) {
+        console.error(`[${requestId}] Export failed (${result.code}):`, result)
+        return scrapeErrorResponse(result, requestId)
+    }
+
+    const slug = parsed.options.keywords.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "jobs"
+
+    return new Response(streamJobsExport(applyResultFilters(result.jobs, parsedFilters.filters).jobs, format), {
+        headers: {
+            "Content-Type": EXPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="${slug}-jobs.${format}"`,
+            "Cache-Control": "no-store",
+            ...searchResultHeaders(result, requestId),
+        },
+    })
+}
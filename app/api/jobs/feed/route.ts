@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { scrapeLinkedInJobs, searchCacheTime } from "@/app/actions/scrape-jobs"
+import { FEED_CONTENT_TYPES, FEED_FORMATS, buildJobsFeed, isFeedFormat } from "@/lib/feed"
+import { getRequestId, scrapeErrorResponse, searchResultHeaders } from "@/lib/jobs-response"
+import { applyResultFilters } from "@/lib/result-filters"
+import { NoResultsError, ScrapeError, toScrapeError } from "@/lib/scrape-errors"
+import { parseResultFilters, parseScrapeOptions } from "@/lib/search-params"
+import { formatLocations } from "@/lib/search-filters"
+
+export const maxDuration = 60 // Set max duration to 60 seconds for Edge functions
+
+// Follow a search in a feed reader; takes the /api/jobs query parameters plus `format`
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get("format") || "rss"
+
+    if (!isFeedFormat(format)) {
+        return NextResponse.json({ error: `Format must be one of ${FEED_FORMATS.join(", ")}` }, { status: 400 })
+    }
+
+    const parsed = parseScrapeOptions(searchParams)
+
+    if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const parsedFilters = parseResultFilters(searchParams)
+
+    if (parsedFilters.error !== undefined) {
+        return NextResponse.json({ error: parsedFilters.error }, { status: 400 })
+    }
+
+    const { options } = parsed
+    const requestId = getRequestId(request)
+    // Stop waiting when the feed reader goes away or the request takes too long
+    const signal = AbortSignal.any([request.signal, AbortSignal.timeout(50000)])
+    const scraped = await scrapeLinkedInJobs(options, { signal }).catch(toScrapeError)
+
+    // An empty feed is a normal state for a feed reader, unlike an error status
+    if (scraped instanceof ScrapeError && !(scraped instanceof NoResultsError)) {
+        console.error(`[${requestId}] Feed failed (${scraped.code}):`, scraped)
+        return scrapeErrorResponse(scraped, requestId)
+    }
+
+    const result = scraped instanceof NoResultsError ? undefined : scraped
+
+    // Link back to the same search in the app, with the same filters and sort
+    const appLink = new URL(`/?${searchParams.toString()}`, request.nextUrl.origin)
+    appLink.searchParams.delete("format")
+
+    const title = [`${options.keywords} jobs`, options.location && `in ${formatLocations(options.location)}`].filter(Boolean).join(" ")
+
+    const body = buildJobsFeed(result ? applyResultFilters(result.jobs, parsedFilters.filters).jobs : [], format, {
+        title,
+        link: appLink.toString(),
+        selfLink: request.nextUrl.toString(),
+        updatedAt: result?.cache ? new Date(result.cache.cachedAt) : new Date(),
+        warning: result?.error,
+    })
+
+    // Feed readers poll; let them reuse a response until the cached results it came from expire. Stale
+    // results are being refreshed, so the next poll should fetch again.
+    const cacheTime = result?.cache
+        ? Math.max(0, Date.parse(result.cache.expiresAt) - Date.now())
+        : searchCacheTime(options)
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": FEED_CONTENT_TYPES[format],
+            "Cache-Control": `public, max-age=${Math.floor(cacheTime / 1000)}`,
+            ...searchResultHeaders(result ?? {}, requestId),
+        },
+    })
+}
@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { scrapeLinkedInJobs, type ScrapeProgressEvent } from "@/app/actions/scrape-jobs"
+import { getRequestId, toJobsResponse, type JobStreamEvent } from "@/lib/jobs-response"
+import { applyResultFilters } from "@/lib/result-filters"
+import { toScrapeError } from "@/lib/scrape-errors"
+import { parseResultFilters, parseScrapeOptions } from "@/lib/search-params"
+
+export const maxDuration = 60 // Set max duration to 60 seconds for Edge functions
+
+// Results as they are scraped, one JSON event per line, or as server-sent events with ?format=sse:
+//   {"type":"job","job":{...}}                           a job, as soon as its result page is parsed
+//   {"type":"progress","stage":"pages","done":1,"total":3}  result pages crawled, or "details" postings opened
+//   {"type":"result",...}                                the /api/jobs response, replacing the jobs sent so far
+//   {"type":"error","error":"...","code":"timeout",...}  the search failed, as /api/jobs would report it
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get("format") || "ndjson"
+
+    if (format !== "ndjson" && format !== "sse") {
+        return NextResponse.json({ error: "Format must be one of ndjson, sse" }, { status: 400 })
+    }
+
+    const parsed = parseScrapeOptions(searchParams)
+
+    if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const parsedFilters = parseResultFilters(searchParams)
+
+    if (parsedFilters.error !== undefined) {
+        return NextResponse.json({ error: parsedFilters.error }, { status: 400 })
+    }
+
+    const { options } = parsed
+    const { filters } = parsedFilters
+    const requestId = getRequestId(request)
+    const encoder = new TextEncoder()
+    // Same limit as /api/jobs; a scrape other requests share keeps running for them
+    const signal = AbortSignal.any([request.signal, AbortSignal.timeout(50000)])
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: JobStreamEvent) => {
+                // The client may have gone away while the scrape runs on for others
+                if (request.signal.aborted) return
+
+                const data = JSON.stringify(event)
+                controller.enqueue(
+                    encoder.encode(format === "sse" ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`),
+                )
+            }
+
+            const onProgress = (event: ScrapeProgressEvent) => {
+                if (event.type === "jobs") {
+                    // Salary and facet filters apply per job, so streamed jobs match what the results will show
+                    for (const job of applyResultFilters(event.jobs, filters).jobs) {
+                        send({ type: "job", job })
+                    }
+                } else {
+                    send({ type: "progress", stage: event.type, done: event.done, total: event.total })
+                }
+            }
+
+            try {
+                const result = await scrapeLinkedInJobs(options, { signal, onProgress })
+                send({ type: "result", ...toJobsResponse(result, filters, options) })
+            } catch (err) {
+                const error = toScrapeError(err)
+                console.error(`[${requestId}] Error in jobs stream (${error.code}):`, err)
+                send({ type: "error", ...error.toBody(requestId) })
+            } finally {
+                if (!request.signal.aborted) controller.close()
+            }
+        },
+    })
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": format === "sse" ? "text/event-stream; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            "X-Request-Id": requestId,
+            // Stop proxies such as nginx from holding events back
+            "X-Accel-Buffering": "no",
+        },
+    })
+}
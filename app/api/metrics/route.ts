@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { getScrapeStats } from "@/app/actions/scrape-jobs"
+import { getBrowserPoolStats } from "@/lib/browser-pool"
+
+// Scraping counters for tuning throughput: shared scrapes and the browser pool
+export async function GET() {
+    return NextResponse.json(
+        { scrapes: getScrapeStats(), browserPool: getBrowserPoolStats() },
+        { headers: { "Cache-Control": "no-store" } },
+    )
+}
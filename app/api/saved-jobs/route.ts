@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isJob, listSavedJobs, removeSavedJob, saveJob } from "@/lib/saved-jobs"
+
+export async function GET() {
+    const savedJobs = await listSavedJobs()
+    return NextResponse.json({ savedJobs })
+}
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null)
+
+    if (!isJob(body?.job)) {
+        return NextResponse.json({ error: "A job is required" }, { status: 400 })
+    }
+
+    const savedJob = await saveJob(body.job)
+    return NextResponse.json({ savedJob }, { status: 201 })
+}
+
+export async function DELETE(request: NextRequest) {
+    const id = request.nextUrl.searchParams.get("id")
+
+    if (!id) {
+        return NextResponse.json({ error: "Id parameter is required" }, { status: 400 })
+    }
+
+    if (!(await removeSavedJob(id))) {
+        return NextResponse.json({ error: "Saved job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id })
+}
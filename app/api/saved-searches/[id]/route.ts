@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteSavedSearch, getSavedSearch, toSavedSearchResponse } from "@/lib/saved-searches"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const savedSearch = await getSavedSearch(id)
+
+    if (!savedSearch) {
+        return NextResponse.json({ error: "Saved search not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ savedSearch: toSavedSearchResponse(savedSearch) })
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+
+    if (!(await deleteSavedSearch(id))) {
+        return NextResponse.json({ error: "Saved search not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id })
+}
@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getSavedSearch } from "@/lib/saved-searches"
+import { runSavedSearch } from "@/lib/scheduler"
+
+export const maxDuration = 60 // Set max duration to 60 seconds for Edge functions
+
+// Run a saved search now instead of waiting for the scheduler
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const savedSearch = await getSavedSearch(id)
+
+    if (!savedSearch) {
+        return NextResponse.json({ error: "Saved search not found" }, { status: 404 })
+    }
+
+    const run = await runSavedSearch(savedSearch)
+    return NextResponse.json({ run })
+}
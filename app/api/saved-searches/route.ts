@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+    createSavedSearch,
+    listSavedSearches,
+    parseSavedSearchOptions,
+    toSavedSearchResponse,
+} from "@/lib/saved-searches"
+
+// Daily unless the request asks otherwise
+const DEFAULT_INTERVAL_MINUTES = 24 * 60
+
+export async function GET() {
+    const savedSearches = await listSavedSearches()
+    return NextResponse.json({ savedSearches: savedSearches.map(toSavedSearchResponse) })
+}
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null)
+    const name = typeof body?.name === "string" ? body.name.trim() : ""
+    const options = parseSavedSearchOptions(body?.options)
+
+    if (!name) {
+        return NextResponse.json({ error: "Name is required" }, { status: 400 })
+    }
+
+    if (!options) {
+        return NextResponse.json({ error: "Search options with keywords are required" }, { status: 400 })
+    }
+
+    const intervalMinutes = Number(body?.intervalMinutes) || DEFAULT_INTERVAL_MINUTES
+    const savedSearch = await createSavedSearch(name, options, intervalMinutes)
+
+    return NextResponse.json({ savedSearch: toSavedSearchResponse(savedSearch) }, { status: 201 })
+}
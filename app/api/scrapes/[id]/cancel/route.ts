@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getBackgroundScrape } from "@/lib/background-scrapes"
+import { cancelScrape } from "@/lib/scrape-queue"
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+
+    if (!(await cancelScrape(id))) {
+        const scrape = await getBackgroundScrape(id)
+
+        return scrape
+            ? NextResponse.json({ error: `Scrape already ${scrape.status}` }, { status: 409 })
+            : NextResponse.json({ error: "Scrape not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id, status: "cancelled" })
+}
@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getBackgroundScrape } from "@/lib/background-scrapes"
+import { withLiveProgress } from "@/lib/scrape-queue"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const scrape = await getBackgroundScrape(id)
+
+    if (!scrape) {
+        return NextResponse.json({ error: "Scrape not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ scrape: withLiveProgress(scrape) }, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listBackgroundScrapes, toBackgroundScrapeSummary } from "@/lib/background-scrapes"
+import { parseSavedSearchOptions } from "@/lib/saved-searches"
+import { enqueueScrape, withLiveProgress } from "@/lib/scrape-queue"
+import { MAX_BACKGROUND_CRAWL_DEPTH } from "@/lib/sources"
+
+export async function GET() {
+    const scrapes = await listBackgroundScrapes()
+    return NextResponse.json({ scrapes: scrapes.map((scrape) => toBackgroundScrapeSummary(withLiveProgress(scrape))) })
+}
+
+// Queue a scrape that is not bound by the request timeout, e.g. a deep crawl; poll /api/scrapes/:id for it
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null)
+    // Queued scrapes may crawl deeper than a search that has to answer within the request timeout
+    const options = parseSavedSearchOptions(body?.options, MAX_BACKGROUND_CRAWL_DEPTH)
+
+    if (!options) {
+        return NextResponse.json({ error: "Search options with keywords are required" }, { status: 400 })
+    }
+
+    const scrape = await enqueueScrape(options)
+
+    return NextResponse.json({ scrape: toBackgroundScrapeSummary(scrape) }, { status: 202 })
+}
@@ -0,0 +1,9 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listNewJobs } from "@/lib/saved-searches"
+
+export async function GET(request: NextRequest) {
+    const days = Math.min(30, Math.max(1, Number.parseInt(request.nextUrl.searchParams.get("days") || "7") || 7))
+    const newJobs = await listNewJobs(days)
+
+    return NextResponse.json({ newJobs, days })
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ApplicationTracker } from "../_components/application-tracker"
+
+export const metadata: Metadata = {
+  title: "Applications | LinkedIn Job Finder",
+  description: "Track saved jobs through your application pipeline.",
+}
+
+export default function ApplicationsPage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2 text-center">Applications</h1>
+      <p className="text-center text-muted-foreground mb-8">
+        <Link href="/" className="hover:underline">
+          Back to job search
+        </Link>
+        {" · "}
+        <Link href="/saved" className="hover:underline">
+          Saved jobs
+        </Link>
+      </p>
+      <div className="max-w-6xl mx-auto">
+        <ApplicationTracker />
+      </div>
+    </main>
+  )
+}
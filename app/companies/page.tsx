@@ -0,0 +1,24 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { CompanyRulesManager } from "../_components/company-rules-manager"
+
+export const metadata: Metadata = {
+  title: "Company Rules | LinkedIn Job Finder",
+  description: "Companies to always hide, or the only companies to show, in every search.",
+}
+
+export default function CompanyRulesPage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2 text-center">Company Rules</h1>
+      <p className="text-center text-muted-foreground mb-8">
+        <Link href="/" className="hover:underline">
+          Back to job search
+        </Link>
+      </p>
+      <div className="max-w-4xl mx-auto">
+        <CompanyRulesManager />
+      </div>
+    </main>
+  )
+}
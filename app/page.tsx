@@ -1,6 +1,8 @@
 import type { Metadata } from "next"
+import Link from "next/link"
 import { JobSearchForm } from "./_components/job-search-form"
 import { JobResults } from "./_components/job-results"
+import { SaveSearchForm } from "./_components/save-search-form"
 
 export const metadata: Metadata = {
   title: "LinkedIn Job Finder | Find Your Dream Job",
@@ -18,11 +20,29 @@ export default function Home() {
   return (
     <main className="container mx-auto py-8 px-4">
       <h1 className="text-3xl font-bold mb-2 text-center">LinkedIn Job Finder</h1>
-      <p className="text-center text-muted-foreground mb-8">
+      <p className="text-center text-muted-foreground mb-4">
         Find your dream job with our advanced LinkedIn job search tool
       </p>
+      <nav className="flex justify-center gap-4 mb-8 text-sm">
+        <Link href="/saved" className="hover:underline">
+          Saved jobs
+        </Link>
+        <Link href="/applications" className="hover:underline">
+          Applications
+        </Link>
+        <Link href="/searches" className="hover:underline">
+          Saved searches
+        </Link>
+        <Link href="/whats-new" className="hover:underline">
+          What&apos;s new
+        </Link>
+        <Link href="/companies" className="hover:underline">
+          Company rules
+        </Link>
+      </nav>
       <div className="max-w-4xl mx-auto">
         <JobSearchForm />
+        <SaveSearchForm />
         <JobResults />
       </div>
     </main>
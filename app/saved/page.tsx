@@ -0,0 +1,28 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { SavedJobsList } from "../_components/saved-jobs-list"
+
+export const metadata: Metadata = {
+  title: "Saved Jobs | LinkedIn Job Finder",
+  description: "Jobs you bookmarked from your LinkedIn job searches.",
+}
+
+export default function SavedJobsPage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2 text-center">Saved Jobs</h1>
+      <p className="text-center text-muted-foreground mb-8">
+        <Link href="/" className="hover:underline">
+          Back to job search
+        </Link>
+        {" · "}
+        <Link href="/applications" className="hover:underline">
+          Applications
+        </Link>
+      </p>
+      <div className="max-w-4xl mx-auto">
+        <SavedJobsList />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { SavedSearchesList } from "../_components/saved-searches-list"
+
+export const metadata: Metadata = {
+  title: "Saved Searches | LinkedIn Job Finder",
+  description: "Job searches that re-run automatically, with their run history.",
+}
+
+export default function SavedSearchesPage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2 text-center">Saved Searches</h1>
+      <p className="text-center text-muted-foreground mb-8">
+        <Link href="/" className="hover:underline">
+          Back to job search
+        </Link>
+      </p>
+      <div className="max-w-4xl mx-auto">
+        <SavedSearchesList />
+      </div>
+    </main>
+  )
+}
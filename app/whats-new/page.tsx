@@ -0,0 +1,28 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { WhatsNewList } from "../_components/whats-new-list"
+
+export const metadata: Metadata = {
+  title: "What's New | LinkedIn Job Finder",
+  description: "Jobs your saved searches found since their previous run.",
+}
+
+export default function WhatsNewPage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-2 text-center">What&apos;s New</h1>
+      <p className="text-center text-muted-foreground mb-8">
+        <Link href="/" className="hover:underline">
+          Back to job search
+        </Link>
+        {" · "}
+        <Link href="/searches" className="hover:underline">
+          Saved searches
+        </Link>
+      </p>
+      <div className="max-w-4xl mx-auto">
+        <WhatsNewList />
+      </div>
+    </main>
+  )
+}
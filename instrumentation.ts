@@ -0,0 +1,24 @@
+// Runs once when the Next.js server starts
+export async function register() {
+    // The scheduler needs Node.js APIs; SAVED_SEARCH_SCHEDULER=off disables it, e.g. on serverless hosts
+    if (process.env.NEXT_RUNTIME === "nodejs" && process.env.SAVED_SEARCH_SCHEDULER !== "off") {
+        const { startSavedSearchScheduler } = await import("@/lib/scheduler")
+        startSavedSearchScheduler()
+    }
+
+    // Resume background scrapes that were queued or cut off when the server last stopped
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { startScrapeQueue } = await import("@/lib/scrape-queue")
+        startScrapeQueue()
+    }
+
+    // Let open pages finish and close the pooled browsers before the server exits
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { shutdownBrowserPool } = await import("@/lib/browser-pool")
+        for (const signal of ["SIGTERM", "SIGINT"] as const) {
+            process.once(signal, () => {
+                shutdownBrowserPool().finally(() => process.exit(0))
+            })
+        }
+    }
+}
@@ -0,0 +1,28 @@
+// Kept apart from lib/applications so client components can import it without the file store
+
+// Pipeline stages, in board column order
+export const APPLICATION_STAGES = [
+    "interested",
+    "applied",
+    "screening",
+    "interviewing",
+    "offer",
+    "rejected",
+    "withdrawn",
+] as const
+
+export type ApplicationStage = (typeof APPLICATION_STAGES)[number]
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+    interested: "Interested",
+    applied: "Applied",
+    screening: "Screening",
+    interviewing: "Interviewing",
+    offer: "Offer",
+    rejected: "Rejected",
+    withdrawn: "Withdrawn",
+}
+
+export function isApplicationStage(value: unknown): value is ApplicationStage {
+    return typeof value === "string" && (APPLICATION_STAGES as readonly string[]).includes(value)
+}
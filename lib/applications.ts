@@ -0,0 +1,92 @@
+import type { Job } from "@/types/job"
+import { createJsonStore } from "@/lib/store/json-store"
+import type { ApplicationStage } from "@/lib/application-stages"
+
+export { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, isApplicationStage } from "@/lib/application-stages"
+export type { ApplicationStage } from "@/lib/application-stages"
+
+export interface StageChange {
+    stage: ApplicationStage
+    changedAt: string
+    note?: string
+}
+
+export interface Application {
+    // Same as the job ID, so each saved job has at most one application
+    id: string
+    // Snapshot of the saved job the application was created from
+    job: Job
+    jobSavedAt: string
+    stage: ApplicationStage
+    // Oldest first
+    history: StageChange[]
+    createdAt: string
+    updatedAt: string
+}
+
+const store = createJsonStore<Record<string, Application>>("applications", () => ({}))
+
+// Most recently updated first
+export async function listApplications(): Promise<Application[]> {
+    const applications = await store.read()
+    return Object.values(applications).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getApplication(id: string): Promise<Application | undefined> {
+    const applications = await store.read()
+    return applications[id]
+}
+
+// Start tracking a saved job; an existing application is returned unchanged
+export async function createApplication(
+    savedJob: { job: Job; savedAt: string },
+    stage: ApplicationStage = "interested",
+    note?: string,
+): Promise<{ application: Application; created: boolean }> {
+    return store.update((applications) => {
+        const existing = applications[savedJob.job.id]
+        if (existing) return { application: existing, created: false }
+
+        const now = new Date().toISOString()
+        const application: Application = {
+            id: savedJob.job.id,
+            job: savedJob.job,
+            jobSavedAt: savedJob.savedAt,
+            stage,
+            history: [{ stage, changedAt: now, ...(note ? { note } : {}) }],
+            createdAt: now,
+            updatedAt: now,
+        }
+
+        applications[application.id] = application
+        return { application, created: true }
+    })
+}
+
+// Move an application to a stage, or add a note to its current stage, recording when it happened
+export async function changeApplicationStage(
+    id: string,
+    stage: ApplicationStage,
+    note?: string,
+): Promise<Application | undefined> {
+    return store.update((applications) => {
+        const application = applications[id]
+        if (!application) return undefined
+
+        const now = new Date().toISOString()
+        application.history.push({ stage, changedAt: now, ...(note ? { note } : {}) })
+        application.stage = stage
+        application.updatedAt = now
+
+        return application
+    })
+}
+
+// Returns false when there was no such application
+export async function deleteApplication(id: string): Promise<boolean> {
+    return store.update((applications) => {
+        if (!applications[id]) return false
+        delete applications[id]
+        return true
+    })
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from "crypto"
+import type { Job } from "@/types/job"
+import type { JobStreamProgress } from "@/lib/jobs-response"
+import type { SavedSearchOptions } from "@/lib/saved-searches"
+import type { ScrapeErrorCode } from "@/lib/scrape-errors"
+import { createJsonStore } from "@/lib/store/json-store"
+
+export type BackgroundScrapeStatus = "queued" | "running" | "completed" | "failed" | "cancelled"
+
+export type BackgroundScrapeProgress = Partial<Record<JobStreamProgress["stage"], JobStreamProgress>>
+
+export interface BackgroundScrape {
+    id: string
+    // Same fields as a saved search; the crawl starts at page 1 and goes `depth` pages deep
+    options: SavedSearchOptions
+    status: BackgroundScrapeStatus
+    createdAt: string
+    startedAt?: string
+    finishedAt?: string
+    // Times the scrape was started, counting restarts after the server stopped mid-scrape
+    attempts: number
+    progress: BackgroundScrapeProgress
+    // Results once the scrape has finished, or the jobs found before it failed
+    jobs: Job[]
+    pagesCrawled?: number
+    // Jobs removed by the company allowlist and blocklist
+    hiddenByCompanyRules?: number
+    error?: string
+    // Why a failed scrape failed
+    code?: ScrapeErrorCode
+}
+
+// A scrape that stopped the server this many times is given up on
+const MAX_ATTEMPTS = 3
+
+// Finished scrapes kept, newest first
+const MAX_FINISHED_SCRAPES = 50
+
+const store = createJsonStore<Record<string, BackgroundScrape>>("background-scrapes", () => ({}))
+
+export function isFinished({ status }: BackgroundScrape): boolean {
+    return status === "completed" || status === "failed" || status === "cancelled"
+}
+
+// Leave out the results when listing scrapes
+export function toBackgroundScrapeSummary({ jobs, ...scrape }: BackgroundScrape) {
+    return { ...scrape, jobCount: jobs.length }
+}
+
+// Newest first
+export async function listBackgroundScrapes(): Promise<BackgroundScrape[]> {
+    const scrapes = await store.read()
+    return Object.values(scrapes).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getBackgroundScrape(id: string): Promise<BackgroundScrape | undefined> {
+    const scrapes = await store.read()
+    return scrapes[id]
+}
+
+export async function createBackgroundScrape(options: SavedSearchOptions): Promise<BackgroundScrape> {
+    return store.update((scrapes) => {
+        const scrape: BackgroundScrape = {
+            id: randomUUID(),
+            options,
+            status: "queued",
+            createdAt: new Date().toISOString(),
+            attempts: 0,
+            progress: {},
+            jobs: [],
+        }
+
+        // Drop the oldest finished scrapes so the store does not grow forever
+        const finished = Object.values(scrapes)
+            .filter(isFinished)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        for (const old of finished.slice(MAX_FINISHED_SCRAPES - 1)) {
+            delete scrapes[old.id]
+        }
+
+        scrapes[scrape.id] = scrape
+        return scrape
+    })
+}
+
+// Mark the oldest waiting scrape as running and return it. Only one queue runs per server, so a scrape
+// still marked running was cut off by a restart and is started again.
+export async function claimNextBackgroundScrape(): Promise<BackgroundScrape | undefined> {
+    return store.update((scrapes) => {
+        const waiting = Object.values(scrapes)
+            .filter((scrape) => scrape.status === "queued" || scrape.status === "running")
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+        for (const scrape of waiting) {
+            if (scrape.attempts >= MAX_ATTEMPTS) {
+                scrape.status = "failed"
+                scrape.finishedAt = new Date().toISOString()
+                scrape.error = `The server stopped during this scrape ${scrape.attempts} times`
+                scrape.code = "internal"
+                continue
+            }
+
+            scrape.status = "running"
+            scrape.startedAt = new Date().toISOString()
+            scrape.attempts++
+            scrape.progress = {}
+            return scrape
+        }
+
+        return undefined
+    })
+}
+
+// Record how a running scrape ended; a scrape cancelled in the meantime stays cancelled
+export async function finishBackgroundScrape(
+    id: string,
+    outcome: Pick<
+        BackgroundScrape,
+        "status" | "progress" | "jobs" | "pagesCrawled" | "hiddenByCompanyRules" | "error" | "code"
+    >,
+): Promise<BackgroundScrape | undefined> {
+    return store.update((scrapes) => {
+        const scrape = scrapes[id]
+        if (!scrape || scrape.status !== "running") return scrape
+
+        Object.assign(scrape, outcome, { finishedAt: new Date().toISOString() })
+        return scrape
+    })
+}
+
+// Returns false when there was no such scrape or it had already finished
+export async function cancelBackgroundScrape(id: string): Promise<boolean> {
+    return store.update((scrapes) => {
+        const scrape = scrapes[id]
+        if (!scrape || isFinished(scrape)) return false
+
+        scrape.status = "cancelled"
+        scrape.finishedAt = new Date().toISOString()
+        return true
+    })
+}
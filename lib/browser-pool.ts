@@ -0,0 +1,295 @@
+import * as playwright from "playwright"
+import type { Browser, BrowserContextOptions, LaunchOptions, Page } from "playwright"
+import { ServerBusyError } from "@/lib/scrape-errors"
+
+export interface BrowserPoolOptions {
+    launchOptions: LaunchOptions
+    contextOptions: BrowserContextOptions
+    // Pages open at the same time, each in its own context
+    maxContexts: number
+    // Requests allowed to wait for a free context; more are turned away
+    maxQueued: number
+    // Waiting longer than this for a context fails the request
+    queueTimeout: number
+    // Contexts a browser opens before it is replaced with a fresh one
+    maxUsesPerBrowser: number
+}
+
+export interface BrowserPoolStats {
+    // Contexts currently open
+    active: number
+    // Requests waiting for a context
+    queued: number
+    // Browsers started since the server started, including replacements
+    launches: number
+    // Browsers still running, counting one being retired
+    browsers: number
+    // Browsers replaced after reaching maxUsesPerBrowser
+    recycled: number
+    // Browsers that disconnected unexpectedly
+    crashes: number
+    // Requests turned away because the queue was full or they waited too long
+    rejected: number
+    maxContexts: number
+    maxQueued: number
+    closed: boolean
+}
+
+export interface BrowserPool {
+    // Open a page in a fresh context; the context is closed once `fn` settles
+    withPage<T>(fn: (page: Page) => Promise<T>): Promise<T>
+    stats(): BrowserPoolStats
+    // Stop taking requests, let open pages finish and close every browser
+    close(options?: { timeout?: number }): Promise<void>
+}
+
+interface PooledBrowser {
+    browser: Promise<Browser>
+    uses: number
+    open: number
+    retired: boolean
+}
+
+interface Waiter {
+    resolve: () => void
+    reject: (err: Error) => void
+    timer: ReturnType<typeof setTimeout>
+}
+
+// Shared browsers with a cap on open contexts, a bounded wait queue, and replacement after a number of uses
+// or a crash, so a cache miss no longer pays for a browser launch
+export function createBrowserPool({
+    launchOptions,
+    contextOptions,
+    maxContexts,
+    maxQueued,
+    queueTimeout,
+    maxUsesPerBrowser,
+}: BrowserPoolOptions): BrowserPool {
+    const queue: Waiter[] = []
+    const browsers = new Set<PooledBrowser>()
+    let current: PooledBrowser | undefined
+    let active = 0
+    let closed = false
+    const counts = { launches: 0, recycled: 0, crashes: 0, rejected: 0 }
+
+    const closeBrowser = (pooled: PooledBrowser) => {
+        browsers.delete(pooled)
+        pooled.browser
+            .then((browser) => browser.close())
+            .catch((err) => console.error("Failed to close pooled browser:", err))
+    }
+
+    const launch = (): PooledBrowser => {
+        counts.launches++
+        const pooled: PooledBrowser = { browser: playwright.chromium.launch(launchOptions), uses: 0, open: 0, retired: false }
+        browsers.add(pooled)
+
+        pooled.browser.then(
+            (browser) =>
+                browser.on("disconnected", () => {
+                    if (!browsers.has(pooled)) return
+
+                    // A crashed browser is dropped so the next request launches a new one
+                    console.error("Pooled browser disconnected unexpectedly")
+                    counts.crashes++
+                    browsers.delete(pooled)
+                    if (current === pooled) current = undefined
+                }),
+            (err) => {
+                console.error("Failed to launch browser:", err)
+                browsers.delete(pooled)
+                if (current === pooled) current = undefined
+            },
+        )
+
+        return pooled
+    }
+
+    // The browser the next context opens in, replacing the current one once it has been used enough
+    const checkout = (): PooledBrowser => {
+        if (current && current.uses >= maxUsesPerBrowser) {
+            counts.recycled++
+            current.retired = true
+            if (current.open === 0) closeBrowser(current)
+            current = undefined
+        }
+
+        current ??= launch()
+        current.uses++
+        current.open++
+        return current
+    }
+
+    const checkin = (pooled: PooledBrowser) => {
+        pooled.open--
+        if (pooled.retired && pooled.open === 0) closeBrowser(pooled)
+    }
+
+    const acquire = (): Promise<void> => {
+        if (closed) return Promise.reject(new Error("Browser pool is shut down"))
+
+        if (active < maxContexts) {
+            active++
+            return Promise.resolve()
+        }
+
+        if (queue.length >= maxQueued) {
+            counts.rejected++
+            return Promise.reject(new ServerBusyError("Browser pool is busy, try again shortly"))
+        }
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    queue.splice(queue.indexOf(waiter), 1)
+                    counts.rejected++
+                    reject(new ServerBusyError(`Browser pool timeout after waiting ${queueTimeout / 1000} seconds`))
+                }, queueTimeout),
+            }
+            queue.push(waiter)
+        })
+    }
+
+    // Hand the context slot straight to the next waiter, if any
+    const release = () => {
+        const next = queue.shift()
+
+        if (next) {
+            clearTimeout(next.timer)
+            next.resolve()
+        } else {
+            active--
+        }
+    }
+
+    return {
+        async withPage(fn) {
+            await acquire()
+
+            try {
+                const pooled = checkout()
+
+                try {
+                    const context = await (await pooled.browser).newContext(contextOptions)
+
+                    try {
+                        return await fn(await context.newPage())
+                    } finally {
+                        await context.close().catch(() => undefined)
+                    }
+                } finally {
+                    checkin(pooled)
+                }
+            } finally {
+                release()
+            }
+        },
+        stats() {
+            return {
+                active,
+                queued: queue.length,
+                launches: counts.launches,
+                browsers: browsers.size,
+                recycled: counts.recycled,
+                crashes: counts.crashes,
+                rejected: counts.rejected,
+                maxContexts,
+                maxQueued,
+                closed,
+            }
+        },
+        async close({ timeout = 10000 } = {}) {
+            if (closed) return
+            closed = true
+
+            for (const waiter of queue.splice(0)) {
+                clearTimeout(waiter.timer)
+                waiter.reject(new Error("Browser pool is shut down"))
+            }
+
+            // Give open pages a chance to finish before their browsers go away
+            const deadline = Date.now() + timeout
+            while (active > 0 && Date.now() < deadline) {
+                await new Promise((resolve) => setTimeout(resolve, 100))
+            }
+
+            current = undefined
+            await Promise.all(
+                [...browsers].map(async (pooled) => {
+                    browsers.delete(pooled)
+                    await (await pooled.browser).close()
+                }),
+            ).catch((err) => console.error("Failed to close pooled browsers:", err))
+        },
+    }
+}
+
+function envNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name])
+    return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+// Keep one pool per server process, even when dev mode reloads this module
+const globalForPool = globalThis as typeof globalThis & { browserPool?: BrowserPool }
+
+// Shared pool for scraping, tuned with BROWSER_POOL_MAX_CONTEXTS, BROWSER_POOL_MAX_QUEUED,
+// BROWSER_POOL_QUEUE_TIMEOUT (ms) and BROWSER_POOL_MAX_USES
+export function getBrowserPool(): BrowserPool {
+    globalForPool.browserPool ??= createBrowserPool({
+        // Options that make the headless browser harder to tell apart from a real one
+        launchOptions: {
+            headless: true,
+            args: [
+                "--disable-blink-features=AutomationControlled",
+                "--no-sandbox",
+                "--disable-setuid-sandbox",
+                "--disable-dev-shm-usage",
+                "--disable-accelerated-2d-canvas",
+                "--no-first-run",
+                "--no-zygote",
+                "--disable-gpu",
+                "--hide-scrollbars",
+                "--mute-audio",
+            ],
+        },
+        contextOptions: {
+            userAgent:
+                "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36",
+            viewport: { width: 1920, height: 1080 },
+            deviceScaleFactor: 1,
+            hasTouch: false,
+            isMobile: false,
+            locale: "en-US",
+            timezoneId: "America/New_York",
+            // Extra headers to appear more like a real browser
+            extraHTTPHeaders: {
+                "Accept-Language": "en-US,en;q=0.9",
+                Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+                "Sec-Fetch-Dest": "document",
+                "Sec-Fetch-Mode": "navigate",
+                "Sec-Fetch-Site": "none",
+                "Sec-Fetch-User": "?1",
+                "Upgrade-Insecure-Requests": "1",
+            },
+        },
+        maxContexts: envNumber("BROWSER_POOL_MAX_CONTEXTS", 3),
+        maxQueued: envNumber("BROWSER_POOL_MAX_QUEUED", 20),
+        queueTimeout: envNumber("BROWSER_POOL_QUEUE_TIMEOUT", 60 * 1000),
+        maxUsesPerBrowser: envNumber("BROWSER_POOL_MAX_USES", 50),
+    })
+
+    return globalForPool.browserPool
+}
+
+// Stats without starting a pool that was never used
+export function getBrowserPoolStats(): BrowserPoolStats | null {
+    return globalForPool.browserPool?.stats() ?? null
+}
+
+// Close the shared pool, if one was started
+export async function shutdownBrowserPool(): Promise<void> {
+    await globalForPool.browserPool?.close()
+}
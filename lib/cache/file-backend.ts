@@ -0,0 +1,68 @@
+import { createHash, randomUUID } from "crypto"
+import { mkdir, readdir, readFile, rm, stat, writeFile, rename } from "fs/promises"
+import path from "path"
+import type { CacheBackend, CacheEntry } from "./types"
+
+// One JSON file per entry, so entries survive restarts and are shared by servers using the same directory
+export function createFileBackend(directory: string): CacheBackend {
+    const fileFor = (key: string) => path.join(directory, `${createHash("sha1").update(key).digest("hex")}.json`)
+
+    const readEntry = async <T>(file: string): Promise<CacheEntry<T> | undefined> => {
+        try {
+            return JSON.parse(await readFile(file, "utf8")) as CacheEntry<T>
+        } catch {
+            // Missing or half-written files count as a miss
+            return undefined
+        }
+    }
+
+    return {
+        async get<T>(key: string) {
+            const entry = await readEntry<T>(fileFor(key))
+            // Guard against hash collisions
+            return entry?.key === key ? entry : undefined
+        },
+        async set<T>(entry: CacheEntry<T>) {
+            await mkdir(directory, { recursive: true })
+
+            // Write to a uniquely named temporary file first, so readers never see a partial entry and
+            // overlapping writes of the same key do not share one
+            const file = fileFor(entry.key)
+            const tempFile = `${file}.${randomUUID()}.tmp`
+            await writeFile(tempFile, JSON.stringify(entry))
+            await rename(tempFile, file)
+        },
+        async delete(key: string) {
+            await rm(fileFor(key), { force: true })
+        },
+        async prune(maxEntries: number, now: number) {
+            const names = await readdir(directory).catch(() => [] as string[])
+            const files = await Promise.all(
+                names
+                    .filter((name) => name.endsWith(".json"))
+                    .map(async (name) => {
+                        const file = path.join(directory, name)
+                        const stats = await stat(file).catch(() => undefined)
+                        return { file, modifiedAt: stats?.mtimeMs ?? 0 }
+                    }),
+            )
+
+            // Oldest first; a file is rewritten whenever its entry is refreshed
+            files.sort((a, b) => a.modifiedAt - b.modifiedAt)
+
+            const kept = []
+            for (const { file } of files) {
+                const entry = await readEntry(file)
+                if (!entry || entry.staleUntil <= now) {
+                    await rm(file, { force: true })
+                } else {
+                    kept.push(file)
+                }
+            }
+
+            for (const file of kept.slice(0, Math.max(0, kept.length - maxEntries))) {
+                await rm(file, { force: true })
+            }
+        },
+    }
+}
@@ -0,0 +1,109 @@
+import path from "path"
+import { createFileBackend } from "./file-backend"
+import { createMemoryBackend } from "./memory-backend"
+import type { CacheBackend, CacheMetadata } from "./types"
+
+export { createFileBackend } from "./file-backend"
+export { createMemoryBackend } from "./memory-backend"
+export type { CacheBackend, CacheEntry, CacheMetadata } from "./types"
+
+// JOB_CACHE_BACKEND=memory keeps the cache in process, otherwise entries are files under JOB_CACHE_DIR
+const CACHE_BACKEND = process.env.JOB_CACHE_BACKEND === "memory" ? "memory" : "file"
+const CACHE_DIR = process.env.JOB_CACHE_DIR || path.join(process.cwd(), ".cache", "job-cache")
+
+// Pruning reads every entry, so run it at most this often per cache
+const PRUNE_INTERVAL = 5 * 60 * 1000 // 5 minutes
+
+export interface CacheOptions {
+    // Separates caches that share a backend directory
+    namespace: string
+    // Default time an entry stays fresh
+    ttl: number
+    // Default time an entry may be served stale after it expires
+    staleTtl?: number
+    maxEntries: number
+    backend?: CacheBackend
+}
+
+export interface CacheSetOptions {
+    ttl?: number
+    staleTtl?: number
+}
+
+export interface CachedValue<T> {
+    value: T
+    metadata: CacheMetadata
+}
+
+export interface Cache<T> {
+    // Fresh or stale value, or undefined once an entry is past its stale window
+    get(key: string): Promise<CachedValue<T> | undefined>
+    set(key: string, value: T, options?: CacheSetOptions): Promise<CacheMetadata>
+    delete(key: string): Promise<void>
+}
+
+function defaultBackend(namespace: string): CacheBackend {
+    return CACHE_BACKEND === "memory" ? createMemoryBackend() : createFileBackend(path.join(CACHE_DIR, namespace))
+}
+
+function toMetadata(cachedAt: number, expiresAt: number, now: number): CacheMetadata {
+    return {
+        cachedAt: new Date(cachedAt).toISOString(),
+        expiresAt: new Date(expiresAt).toISOString(),
+        stale: now >= expiresAt,
+    }
+}
+
+// Cache with per-entry TTLs, a stale window for stale-while-revalidate and size-bounded eviction.
+// Backend failures are logged and treated as misses, so a broken cache never fails a search.
+export function createCache<T>({
+    namespace,
+    ttl: defaultTtl,
+    staleTtl: defaultStaleTtl = 0,
+    maxEntries,
+    backend = defaultBackend(namespace),
+}: CacheOptions): Cache<T> {
+    let lastPrunedAt = 0
+
+    const pruneIfDue = async (now: number) => {
+        if (now - lastPrunedAt < PRUNE_INTERVAL) return
+        lastPrunedAt = now
+        await backend.prune(maxEntries, now)
+    }
+
+    return {
+        async get(key) {
+            try {
+                const entry = await backend.get<T>(key)
+                const now = Date.now()
+
+                if (!entry || entry.staleUntil <= now) return undefined
+
+                return { value: entry.value, metadata: toMetadata(entry.cachedAt, entry.expiresAt, now) }
+            } catch (err) {
+                console.error(`Cache read failed for ${namespace}:`, err)
+                return undefined
+            }
+        },
+        async set(key, value, { ttl = defaultTtl, staleTtl = defaultStaleTtl } = {}) {
+            const cachedAt = Date.now()
+            const expiresAt = cachedAt + ttl
+
+            try {
+                await backend.set({ key, value, cachedAt, expiresAt, staleUntil: expiresAt + staleTtl })
+                await pruneIfDue(cachedAt)
+            } catch (err) {
+                console.error(`Cache write failed for ${namespace}:`, err)
+            }
+
+            return toMetadata(cachedAt, expiresAt, cachedAt)
+        },
+        async delete(key) {
+            try {
+                await backend.delete(key)
+            } catch (err) {
+                console.error(`Cache delete failed for ${namespace}:`, err)
+            }
+        },
+    }
+}
@@ -0,0 +1,30 @@
+import type { CacheBackend, CacheEntry } from "./types"
+
+// Per-process cache, lost on restart. Useful for tests and read-only deployments.
+export function createMemoryBackend(): CacheBackend {
+    const entries = new Map<string, CacheEntry<unknown>>()
+
+    return {
+        async get<T>(key: string) {
+            return entries.get(key) as CacheEntry<T> | undefined
+        },
+        async set<T>(entry: CacheEntry<T>) {
+            // Re-insert so Map order stays oldest first
+            entries.delete(entry.key)
+            entries.set(entry.key, entry)
+        },
+        async delete(key: string) {
+            entries.delete(key)
+        },
+        async prune(maxEntries: number, now: number) {
+            for (const [key, entry] of entries) {
+                if (entry.staleUntil <= now) entries.delete(key)
+            }
+
+            for (const key of entries.keys()) {
+                if (entries.size <= maxEntries) break
+                entries.delete(key)
+            }
+        },
+    }
+}
@@ -0,0 +1,24 @@
+export interface CacheEntry<T> {
+    key: string
+    value: T
+    cachedAt: number
+    // Fresh until this time, then served stale while it is refreshed
+    expiresAt: number
+    // Dropped after this time
+    staleUntil: number
+}
+
+export interface CacheBackend {
+    get<T>(key: string): Promise<CacheEntry<T> | undefined>
+    set<T>(entry: CacheEntry<T>): Promise<void>
+    delete(key: string): Promise<void>
+    // Remove entries past staleUntil, then the oldest entries beyond maxEntries
+    prune(maxEntries: number, now: number): Promise<void>
+}
+
+// Cache details reported to API clients
+export interface CacheMetadata {
+    cachedAt: string
+    expiresAt: string
+    stale: boolean
+}
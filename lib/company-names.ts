@@ -0,0 +1,13 @@
+// Legal suffixes that vary between listings of the same employer
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|sa|bv)\b/g
+
+// "Acme Corp." and "ACME Corporation" -> "acme"
+export function normalizeCompanyName(company: string): string {
+    return company
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/[^a-z0-9+#/]+/g, " ")
+        .replace(COMPANY_SUFFIXES, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+}
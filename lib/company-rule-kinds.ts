@@ -0,0 +1,31 @@
+// Kept apart from lib/company-rules so client components can import it without the file store
+
+// Blocked companies are always hidden; once any allow rule exists, only allowed companies are shown
+export const COMPANY_RULE_LISTS = ["block", "allow"] as const
+
+export type CompanyRuleList = (typeof COMPANY_RULE_LISTS)[number]
+
+// "exact" compares the name as written, "normalized" ignores case, punctuation and suffixes
+// such as "Inc.", and "regex" tests a case-insensitive regular expression
+export const COMPANY_RULE_MATCHES = ["exact", "normalized", "regex"] as const
+
+export type CompanyRuleMatch = (typeof COMPANY_RULE_MATCHES)[number]
+
+export const COMPANY_RULE_LIST_LABELS: Record<CompanyRuleList, string> = {
+    block: "Blocklist",
+    allow: "Allowlist",
+}
+
+export const COMPANY_RULE_MATCH_LABELS: Record<CompanyRuleMatch, string> = {
+    exact: "Exact name",
+    normalized: "Normalized name",
+    regex: "Regular expression",
+}
+
+export function isCompanyRuleList(value: unknown): value is CompanyRuleList {
+    return typeof value === "string" && (COMPANY_RULE_LISTS as readonly string[]).includes(value)
+}
+
+export function isCompanyRuleMatch(value: unknown): value is CompanyRuleMatch {
+    return typeof value === "string" && (COMPANY_RULE_MATCHES as readonly string[]).includes(value)
+}
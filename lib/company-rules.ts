@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto"
+import type { Job } from "@/types/job"
+import { createJsonStore } from "@/lib/store/json-store"
+import { normalizeCompanyName } from "@/lib/company-names"
+import type { CompanyRuleList, CompanyRuleMatch } from "@/lib/company-rule-kinds"
+
+export {
+    COMPANY_RULE_LISTS,
+    COMPANY_RULE_LIST_LABELS,
+    COMPANY_RULE_MATCHES,
+    COMPANY_RULE_MATCH_LABELS,
+    isCompanyRuleList,
+    isCompanyRuleMatch,
+} from "@/lib/company-rule-kinds"
+export type { CompanyRuleList, CompanyRuleMatch } from "@/lib/company-rule-kinds"
+
+export interface CompanyRule {
+    id: string
+    list: CompanyRuleList
+    match: CompanyRuleMatch
+    // Company name, or a regular expression source when `match` is "regex"
+    pattern: string
+    createdAt: string
+}
+
+export interface CompanyRuleResult {
+    jobs: Job[]
+    // Jobs removed by a block rule, or by not matching any allow rule
+    hidden: number
+}
+
+const store = createJsonStore<Record<string, CompanyRule>>("company-rules", () => ({}))
+
+// Oldest first, so the list reads in the order rules were added
+export async function listCompanyRules(): Promise<CompanyRule[]> {
+    const rules = await store.read()
+    return Object.values(rules).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// Returns an error message for patterns that cannot be used with the given match type
+export function validateCompanyRulePattern(match: CompanyRuleMatch, pattern: string): string | undefined {
+    if (!pattern.trim()) return "Pattern is required"
+
+    if (match === "normalized" && !normalizeCompanyName(pattern)) {
+        return "Pattern has no letters or digits to match"
+    }
+
+    if (match === "regex") {
+        try {
+            new RegExp(pattern, "i")
+        } catch (err) {
+            return err instanceof Error ? err.message : "Invalid regular expression"
+        }
+    }
+
+    return undefined
+}
+
+// Adding a rule that already exists returns the existing one
+export async function createCompanyRule(
+    list: CompanyRuleList,
+    match: CompanyRuleMatch,
+    pattern: string,
+): Promise<CompanyRule> {
+    const trimmed = pattern.trim()
+
+    return store.update((rules) => {
+        const existing = Object.values(rules).find(
+            (rule) => rule.list === list && rule.match === match && rule.pattern === trimmed,
+        )
+        if (existing) return existing
+
+        const rule: CompanyRule = { id: randomUUID(), list, match, pattern: trimmed, createdAt: new Date().toISOString() }
+        rules[rule.id] = rule
+        return rule
+    })
+}
+
+// Returns false when there was no such rule
+export async function deleteCompanyRule(id: string): Promise<boolean> {
+    return store.update((rules) => {
+        if (!rules[id]) return false
+        delete rules[id]
+        return true
+    })
+}
+
+// Build a test per rule once, rather than per job
+function compileRule(rule: CompanyRule): (company: string) => boolean {
+    switch (rule.match) {
+        case "exact":
+            return (company) => company.trim() === rule.pattern
+        case "normalized": {
+            const normalized = normalizeCompanyName(rule.pattern)
+            return (company) => normalizeCompanyName(company) === normalized
+        }
+        case "regex": {
+            const regex = new RegExp(rule.pattern, "i")
+            return (company) => regex.test(company)
+        }
+    }
+}
+
+// Drop blocked companies and, when allow rules exist, every company they do not name
+export function filterJobsByCompanyRules(jobs: Job[], rules: CompanyRule[]): CompanyRuleResult {
+    const blocked = rules.filter((rule) => rule.list === "block").map(compileRule)
+    const allowed = rules.filter((rule) => rule.list === "allow").map(compileRule)
+
+    const kept = jobs.filter(
+        (job) =>
+            !blocked.some((test) => test(job.company)) &&
+            (allowed.length === 0 || allowed.some((test) => test(job.company))),
+    )
+
+    return { jobs: kept, hidden: jobs.length - kept.length }
+}
+
+// Apply the stored rules to search results
+export async function applyCompanyRules(jobs: Job[]): Promise<CompanyRuleResult> {
+    return filterJobsByCompanyRules(jobs, await listCompanyRules())
+}
@@ -0,0 +1,21 @@
+// Map over items running at most `limit` calls at a time, keeping results in input order
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length)
+    let nextIndex = 0
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++
+            results[index] = await fn(items[index], index)
+        }
+    }
+
+    const workerCount = Math.max(1, Math.min(limit, items.length))
+    await Promise.all(Array.from({ length: workerCount }, worker))
+
+    return results
+}
@@ -0,0 +1,142 @@
+// How much a normalized posting date can be trusted:
+// "exact" came from a machine-readable datetime attribute, "relative" was parsed from text like "2 days ago"
+// against the scrape time, and "estimated" means nothing was parseable, so the scrape time stands in.
+export type PostedAtConfidence = "exact" | "relative" | "estimated"
+
+export interface PostedDate {
+    // ISO 8601 timestamp
+    postedAt: string
+    confidence: PostedAtConfidence
+}
+
+export interface PostedDateInput {
+    // Value of the card's <time datetime="..."> attribute, e.g. "2026-10-17"
+    datetime?: string
+    // Text shown on the card, e.g. "2 days ago" or "Reposted 3 hours ago"
+    text?: string
+}
+
+type RelativeUnit = "minute" | "hour" | "day" | "week" | "month" | "year"
+
+// Unit spellings LinkedIn uses in full and abbreviated card text
+const UNIT_ALIASES: Record<string, RelativeUnit> = {
+    m: "minute",
+    min: "minute",
+    mins: "minute",
+    minute: "minute",
+    minutes: "minute",
+    h: "hour",
+    hr: "hour",
+    hrs: "hour",
+    hour: "hour",
+    hours: "hour",
+    d: "day",
+    day: "day",
+    days: "day",
+    w: "week",
+    wk: "week",
+    wks: "week",
+    week: "week",
+    weeks: "week",
+    mo: "month",
+    mos: "month",
+    month: "month",
+    months: "month",
+    y: "year",
+    yr: "year",
+    yrs: "year",
+    year: "year",
+    years: "year",
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+function subtract(from: Date, amount: number, unit: RelativeUnit): Date {
+    const date = new Date(from)
+
+    switch (unit) {
+        case "minute":
+            return new Date(date.getTime() - amount * MINUTE)
+        case "hour":
+            return new Date(date.getTime() - amount * HOUR)
+        case "day":
+            return new Date(date.getTime() - amount * DAY)
+        case "week":
+            return new Date(date.getTime() - amount * 7 * DAY)
+        case "month":
+            date.setUTCMonth(date.getUTCMonth() - amount)
+            return date
+        case "year":
+            date.setUTCFullYear(date.getUTCFullYear() - amount)
+            return date
+    }
+}
+
+// Parse "3 hours ago", "an hour ago", "30+ days ago", "2w ago", "yesterday" or "just now" against `now`
+export function parseRelativeDate(text: string, now: Date): Date | undefined {
+    const phrase = text
+        .toLowerCase()
+        .replace(/^(re)?posted\s+/, "")
+        .replace(/\s+/g, " ")
+        .trim()
+
+    if (/^(just now|moments? ago|today|new)$/.test(phrase)) return now
+    if (phrase === "yesterday") return subtract(now, 1, "day")
+
+    const match = phrase.match(/^(\d+|an?|one)\+?\s*([a-z]+)\s+ago$/)
+    if (!match) return undefined
+
+    const unit = UNIT_ALIASES[match[2]]
+    if (!unit) return undefined
+
+    const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1
+    return subtract(now, amount, unit)
+}
+
+// Parse a datetime attribute; date-only values are read as midnight UTC
+function parseDatetime(value: string): Date | undefined {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+// Turn what a card shows about its age into a timestamp, preferring the datetime attribute
+export function normalizePostedDate({ datetime, text }: PostedDateInput, scrapedAt: Date): PostedDate {
+    const attribute = datetime?.trim()
+    const exact = attribute ? parseDatetime(attribute) : undefined
+    const relative = text ? parseRelativeDate(text, scrapedAt) : undefined
+
+    if (attribute && exact) {
+        // A date-only attribute says nothing about the time of day, which "3 hours ago" can fill in
+        const sameDay = !!relative && relative.toISOString().slice(0, 10) === attribute
+        const postedAt = relative && sameDay && DATE_ONLY.test(attribute) ? relative : exact
+
+        return { postedAt: postedAt.toISOString(), confidence: "exact" }
+    }
+
+    if (relative) {
+        return { postedAt: relative.toISOString(), confidence: "relative" }
+    }
+
+    return { postedAt: scrapedAt.toISOString(), confidence: "estimated" }
+}
+
+// "posted 3 hours ago", recomputed from the timestamp so cached results stay accurate
+export function formatPostedAgo(postedAt: string, now = new Date()): string {
+    const elapsed = Math.max(0, now.getTime() - new Date(postedAt).getTime())
+
+    const plural = (amount: number, unit: string) => `posted ${amount} ${unit}${amount === 1 ? "" : "s"} ago`
+
+    if (elapsed < HOUR) {
+        const minutes = Math.floor(elapsed / MINUTE)
+        return minutes < 1 ? "posted just now" : plural(minutes, "minute")
+    }
+    if (elapsed < DAY) return plural(Math.floor(elapsed / HOUR), "hour")
+    if (elapsed < 7 * DAY) return plural(Math.floor(elapsed / DAY), "day")
+    if (elapsed < 30 * DAY) return plural(Math.floor(elapsed / (7 * DAY)), "week")
+    if (elapsed < 365 * DAY) return plural(Math.floor(elapsed / (30 * DAY)), "month")
+    return plural(Math.floor(elapsed / (365 * DAY)), "year")
+}
@@ -0,0 +1,141 @@
+import type { DuplicateJob, Job } from "@/types/job"
+import { normalizeCompanyName } from "@/lib/company-names"
+
+// Jobs scoring at least this much are merged unless JOB_DEDUPE_THRESHOLD or the search says otherwise
+export const DEFAULT_DEDUPE_THRESHOLD = (() => {
+    const threshold = Number(process.env.JOB_DEDUPE_THRESHOLD)
+    return Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : 0.8
+})()
+
+// How much each signal contributes to the similarity score. Descriptions only count when both
+// postings have one, and the remaining weights are scaled back up to 1 when they don't. An agency
+// reposting a job names itself as the company, so location takes the company's place for those pairs.
+const WEIGHTS = {
+    title: 0.45,
+    company: 0.2,
+    location: 0.2,
+    description: 0.35,
+}
+
+// Company names of staffing and recruiting agencies, which post jobs on behalf of other employers
+const AGENCY_NAME = /\b(staffing|recruit(ing|ment|ers)?|talent|personnel|resourcing|headhunters?)\b/
+
+// Words in descriptions compared as overlapping runs of this length
+const SHINGLE_SIZE = 3
+
+// Title words that describe where or how the job is posted rather than the role
+const TITLE_NOISE = /\b(remote|hybrid|on-?site|m\/f\/d|f\/m\/d|w\/m\/d|all genders)\b/g
+
+function words(value: string): string[] {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9+#/]+/g, " ")
+        .split(" ")
+        .filter(Boolean)
+}
+
+function normalizeTitle(title: string): string[] {
+    return words(title.toLowerCase().replace(TITLE_NOISE, " "))
+}
+
+function shingles(text: string): string[] {
+    const tokens = words(text)
+    if (tokens.length < SHINGLE_SIZE) return [tokens.join(" ")]
+
+    return tokens.slice(0, tokens.length - SHINGLE_SIZE + 1).map((_, i) => tokens.slice(i, i + SHINGLE_SIZE).join(" "))
+}
+
+// Share of distinct items the two lists have in common
+function jaccard(a: string[], b: string[]): number {
+    const setA = new Set(a)
+    const setB = new Set(b)
+    if (setA.size === 0 && setB.size === 0) return 1
+
+    let shared = 0
+    for (const item of setA) {
+        if (setB.has(item)) shared++
+    }
+    return shared / (setA.size + setB.size - shared)
+}
+
+interface Fingerprint {
+    title: string[]
+    company: string
+    isAgency: boolean
+    location: string[]
+    // Only set once the detail pass has replaced the card's placeholder text
+    description?: string[]
+}
+
+function fingerprint(job: Job): Fingerprint {
+    const company = normalizeCompanyName(job.company)
+
+    return {
+        title: normalizeTitle(job.title),
+        company,
+        isAgency: AGENCY_NAME.test(company),
+        location: words(job.location),
+        description: job.descriptionHtml ? shingles(job.description) : undefined,
+    }
+}
+
+// 0-1 similarity from title words, employer (or location, for agency copies) and description text
+function fingerprintSimilarity(a: Fingerprint, b: Fingerprint): number {
+    const isAgencyCopy = a.company !== b.company && (a.isAgency || b.isAgency)
+    const scores = [
+        { weight: WEIGHTS.title, score: jaccard(a.title, b.title) },
+        isAgencyCopy
+            ? { weight: WEIGHTS.location, score: jaccard(a.location, b.location) }
+            : { weight: WEIGHTS.company, score: a.company === b.company ? 1 : 0 },
+        ...(a.description && b.description
+            ? [{ weight: WEIGHTS.description, score: jaccard(a.description, b.description) }]
+            : []),
+    ]
+
+    const totalWeight = scores.reduce((sum, { weight }) => sum + weight, 0)
+    return scores.reduce((sum, { weight, score }) => sum + weight * score, 0) / totalWeight
+}
+
+function toDuplicate(job: Job): DuplicateJob {
+    return {
+        id: job.id,
+        title: job.title,
+        company: job.company,
+        location: job.location,
+        url: job.url,
+        ...(job.postedAt ? { postedAt: job.postedAt } : {}),
+    }
+}
+
+// Merge reposts, cross-city listings and agency copies into the first posting of each group,
+// which keeps the others in `duplicates`
+export function dedupeJobs(jobs: Job[], threshold = DEFAULT_DEDUPE_THRESHOLD): Job[] {
+    const groups: { job: Job; fingerprint: Fingerprint; duplicates: Job[] }[] = []
+
+    for (const job of jobs) {
+        const print = fingerprint(job)
+        const group = groups.find((candidate) => fingerprintSimilarity(candidate.fingerprint, print) >= threshold)
+
+        if (group) {
+            group.duplicates.push(job)
+        } else {
+            groups.push({ job, fingerprint: print, duplicates: [] })
+        }
+    }
+
+    return groups.map(({ job, duplicates }) => {
+        if (duplicates.length === 0) return job
+
+        // Jobs merged in an earlier pass, e.g. per location of a multi-location search, keep what they folded in
+        const queryLocations = [...new Set([job, ...duplicates].flatMap((merged) => merged.queryLocations || []))]
+
+        return {
+            ...job,
+            duplicates: [
+                ...(job.duplicates || []),
+                ...duplicates.flatMap((duplicate) => [toDuplicate(duplicate), ...(duplicate.duplicates || [])]),
+            ],
+            ...(queryLocations.length > 0 ? { queryLocations } : {}),
+        }
+    })
+}
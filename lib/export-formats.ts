@@ -0,0 +1,15 @@
+// Kept apart from lib/export so client components can import it without exceljs
+
+export const EXPORT_FORMATS = ["csv", "jsonl", "xlsx"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    jsonl: "application/x-ndjson; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+    return !!value && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
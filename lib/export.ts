@@ -0,0 +1,121 @@
+import { PassThrough, Readable } from "stream"
+import ExcelJS from "exceljs"
+import type { Job } from "@/types/job"
+import type { ExportFormat } from "@/lib/export-formats"
+
+export { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, isExportFormat } from "@/lib/export-formats"
+export type { ExportFormat } from "@/lib/export-formats"
+
+interface ExportColumn {
+    header: string
+    value: (job: Job) => string
+}
+
+// Excel refuses to open cells longer than this
+const XLSX_MAX_CELL_LENGTH = 32767
+
+const list = (values?: string[]) => (values || []).join("; ")
+
+// Every Job field, in the order spreadsheets show them
+const exportColumns: ExportColumn[] = [
+    { header: "ID", value: (job) => job.id },
+    { header: "Title", value: (job) => job.title },
+    { header: "Company", value: (job) => job.company },
+    { header: "Location", value: (job) => job.location },
+    { header: "Query Locations", value: (job) => list(job.queryLocations) },
+    { header: "Job Type", value: (job) => job.jobType },
+    { header: "Date Posted", value: (job) => job.datePosted },
+    { header: "Posted At", value: (job) => job.postedAt || "" },
+    { header: "Posted At Confidence", value: (job) => job.postedAtConfidence || "" },
+    { header: "Salary", value: (job) => job.salary || "" },
+    { header: "Salary Min", value: (job) => job.salaryRange?.min.toString() || "" },
+    { header: "Salary Max", value: (job) => job.salaryRange?.max.toString() || "" },
+    { header: "Salary Currency", value: (job) => job.salaryRange?.currency || "" },
+    { header: "Salary Period", value: (job) => job.salaryRange?.period || "" },
+    { header: "Annual Salary Min", value: (job) => job.annualSalary?.min.toString() || "" },
+    { header: "Annual Salary Max", value: (job) => job.annualSalary?.max.toString() || "" },
+    { header: "Annual Salary Currency", value: (job) => job.annualSalary?.currency || "" },
+    { header: "Skills", value: (job) => list(job.skills) },
+    { header: "Employment Type", value: (job) => job.employmentType || "" },
+    { header: "Seniority Level", value: (job) => job.seniorityLevel || "" },
+    { header: "Industries", value: (job) => list(job.industries) },
+    { header: "Job Functions", value: (job) => list(job.jobFunctions) },
+    { header: "URL", value: (job) => job.url },
+    { header: "Logo URL", value: (job) => job.logoUrl || "" },
+    { header: "Description", value: (job) => job.description },
+    { header: "Description HTML", value: (job) => job.descriptionHtml || "" },
+    { header: "Duplicate IDs", value: (job) => list(job.duplicates?.map((duplicate) => duplicate.id)) },
+    { header: "Duplicate URLs", value: (job) => list(job.duplicates?.map((duplicate) => duplicate.url)) },
+]
+
+// Titles and company names come from scraped pages, and spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Prefix a quote so a spreadsheet shows the cell as text instead of evaluating it
+function neutralizeFormula(value: string): string {
+    return FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+const cellValue = (column: ExportColumn, job: Job) => neutralizeFormula(column.value(job))
+
+// Quote fields containing commas, quotes or line breaks, doubling embedded quotes (RFC 4180)
+export function escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Emit one line per job, so large exports start downloading right away
+function streamLines(header: string | undefined, jobs: Job[], toLine: (job: Job) => string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    let index = 0
+
+    return new ReadableStream({
+        start(controller) {
+            if (header !== undefined) {
+                controller.enqueue(encoder.encode(header))
+            }
+        },
+        pull(controller) {
+            if (index >= jobs.length) {
+                controller.close()
+                return
+            }
+            controller.enqueue(encoder.encode(toLine(jobs[index++])))
+        },
+    })
+}
+
+function streamXlsx(jobs: Job[]): ReadableStream<Uint8Array> {
+    const output = new PassThrough()
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output })
+    const sheet = workbook.addWorksheet("Jobs")
+
+    sheet.columns = exportColumns.map((column) => ({ header: column.header, width: 24 }))
+
+    const writeRows = async () => {
+        for (const job of jobs) {
+            sheet.addRow(exportColumns.map((column) => cellValue(column, job).slice(0, XLSX_MAX_CELL_LENGTH))).commit()
+        }
+        sheet.commit()
+        await workbook.commit()
+    }
+
+    writeRows().catch((err) => output.destroy(err))
+
+    return Readable.toWeb(output) as ReadableStream<Uint8Array>
+}
+
+export function streamJobsExport(jobs: Job[], format: ExportFormat): ReadableStream<Uint8Array> {
+    switch (format) {
+        case "csv":
+            // The byte order mark makes Excel read the file as UTF-8
+            return streamLines(
+                `\uFEFF${exportColumns.map((column) => escapeCsvField(column.header)).join(",")}\r\n`,
+                jobs,
+                (job) => `${exportColumns.map((column) => escapeCsvField(cellValue(column, job))).join(",")}\r\n`,
+            )
+        case "jsonl":
+            return streamLines(undefined, jobs, (job) => `${JSON.stringify(job)}\n`)
+        case "xlsx":
+            return streamXlsx(jobs)
+    }
+}
@@ -0,0 +1,109 @@
+import type { Job } from "@/types/job"
+
+// Kept free of server imports so JobResults can build facet and sort URLs with it
+
+export const FACET_FIELDS = ["company", "location", "jobType", "skills"] as const
+
+export type FacetField = (typeof FACET_FIELDS)[number]
+
+export const FACET_LABELS: Record<FacetField, string> = {
+    company: "Company",
+    location: "Location",
+    jobType: "Job type",
+    skills: "Skills",
+}
+
+// Selected values per facet. Values of one facet are alternatives; different facets must all match.
+export type FacetSelections = Partial<Record<FacetField, string[]>>
+
+export interface FacetValue {
+    value: string
+    count: number
+    selected: boolean
+}
+
+export type FacetCounts = Record<FacetField, FacetValue[]>
+
+export const JOB_SORTS = ["relevance", "newest", "company", "salary"] as const
+
+export type JobSort = (typeof JOB_SORTS)[number]
+
+export const JOB_SORT_LABELS: Record<JobSort, string> = {
+    relevance: "Best match",
+    newest: "Newest",
+    company: "Company A–Z",
+    salary: "Highest salary",
+}
+
+export function isJobSort(value: string | null): value is JobSort {
+    return !!value && (JOB_SORTS as readonly string[]).includes(value)
+}
+
+// Facet selections live in the URL as repeated "f.<field>" parameters, e.g. ?f.company=Acme&f.company=Hooli
+export function facetParam(field: FacetField): string {
+    return `f.${field}`
+}
+
+// Values per facet returned to the client; selected values are always included
+const MAX_FACET_VALUES = 15
+
+function facetValues(job: Job, field: FacetField): string[] {
+    if (field === "skills") return job.skills || []
+    return job[field] ? [job[field]] : []
+}
+
+function matchesFacets(job: Job, selections: FacetSelections, ignoredField?: FacetField): boolean {
+    return FACET_FIELDS.every((field) => {
+        const selected = selections[field]
+        if (field === ignoredField || !selected || selected.length === 0) return true
+        return facetValues(job, field).some((value) => selected.includes(value))
+    })
+}
+
+export function filterByFacets(jobs: Job[], selections: FacetSelections): Job[] {
+    return jobs.filter((job) => matchesFacets(job, selections))
+}
+
+// Count each facet over the jobs that match the other facets, so picking a company
+// still shows how many jobs the other companies have
+export function computeFacets(jobs: Job[], selections: FacetSelections): FacetCounts {
+    const entries = FACET_FIELDS.map((field) => {
+        const counts = new Map<string, number>()
+
+        for (const job of jobs) {
+            if (!matchesFacets(job, selections, field)) continue
+            for (const value of new Set(facetValues(job, field))) {
+                counts.set(value, (counts.get(value) || 0) + 1)
+            }
+        }
+
+        const selected = selections[field] || []
+        const values = [...counts]
+            .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+            .map(([value, count]) => ({ value, count, selected: selected.includes(value) }))
+            .filter((facet, index) => facet.selected || index < MAX_FACET_VALUES)
+
+        // A selected value with no matches stays visible, so it can be unselected
+        for (const value of selected) {
+            if (!counts.has(value)) values.push({ value, count: 0, selected: true })
+        }
+
+        return [field, values] as const
+    })
+
+    return Object.fromEntries(entries) as FacetCounts
+}
+
+// Sort without mutating; jobs missing the sort field keep their order at the end
+export function sortJobs(jobs: Job[], sort: JobSort): Job[] {
+    switch (sort) {
+        case "newest":
+            return [...jobs].sort((a, b) => (b.postedAt || "").localeCompare(a.postedAt || ""))
+        case "company":
+            return [...jobs].sort((a, b) => a.company.localeCompare(b.company, undefined, { sensitivity: "base" }))
+        case "salary":
+            return [...jobs].sort((a, b) => (b.annualSalary?.max ?? -1) - (a.annualSalary?.max ?? -1))
+        default:
+            return jobs
+    }
+}
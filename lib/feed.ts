@@ -0,0 +1,108 @@
+import type { Job } from "@/types/job"
+
+export const FEED_FORMATS = ["rss", "atom"] as const
+
+export type FeedFormat = (typeof FEED_FORMATS)[number]
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: "application/rss+xml; charset=utf-8",
+    atom: "application/atom+xml; charset=utf-8",
+}
+
+export function isFeedFormat(value: string | null): value is FeedFormat {
+    return !!value && (FEED_FORMATS as readonly string[]).includes(value)
+}
+
+export interface FeedOptions {
+    title: string
+    // Page that shows the same search in the app
+    link: string
+    // URL of the feed itself
+    selfLink: string
+    // When the jobs were scraped
+    updatedAt: Date
+    // Locations of a multi-location search that failed, shown in the feed description
+    warning?: string
+}
+
+// Jobs cached before dates were normalized have no postedAt, so they are dated by the scrape
+function postedAt(job: Job, scrapedAt: Date): Date {
+    return job.postedAt ? new Date(job.postedAt) : scrapedAt
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;")
+}
+
+// "Acme Corp · Berlin, Germany · Full-time", followed by the description
+function summarize(job: Job): string {
+    const heading = [job.company, job.location, job.jobType].filter(Boolean).join(" · ")
+    return job.description ? `${heading}\n\n${job.description}` : heading
+}
+
+// Job IDs are stable across scrapes, so readers recognise items they have already shown
+function atomId(job: Job): string {
+    return `urn:linkedin-job-finder:job:${encodeURIComponent(job.id)}`
+}
+
+function buildRss(jobs: Job[], feed: FeedOptions): string {
+    const items = jobs.map(
+        (job) => `    <item>
+      <title>${escapeXml(`${job.title} at ${job.company}`)}</title>
+      <link>${escapeXml(job.url)}</link>
+      <guid isPermaLink="false">${escapeXml(job.id)}</guid>
+      <pubDate>${postedAt(job, feed.updatedAt).toUTCString()}</pubDate>
+      <description>${escapeXml(summarize(job))}</description>
+${(job.skills || []).map((skill) => `      <category>${escapeXml(skill)}</category>\n`).join("")}    </item>`,
+    )
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.link)}</link>
+    <description>${escapeXml(feed.warning ? `${feed.title}. ${feed.warning}` : feed.title)}</description>
+    <atom:link href="${escapeXml(feed.selfLink)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`
+}
+
+function buildAtom(jobs: Job[], feed: FeedOptions): string {
+    const entries = jobs.map((job) => {
+        const published = postedAt(job, feed.updatedAt).toISOString()
+
+        return `  <entry>
+    <id>${escapeXml(atomId(job))}</id>
+    <title>${escapeXml(`${job.title} at ${job.company}`)}</title>
+    <link href="${escapeXml(job.url)}"/>
+    <published>${published}</published>
+    <updated>${published}</updated>
+    <author><name>${escapeXml(job.company)}</name></author>
+    <summary>${escapeXml(summarize(job))}</summary>
+${(job.skills || []).map((skill) => `    <category term="${escapeXml(skill)}"/>\n`).join("")}  </entry>`
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.selfLink)}</id>
+  <title>${escapeXml(feed.title)}</title>
+${feed.warning ? `  <subtitle>${escapeXml(feed.warning)}</subtitle>\n` : ""}  <link href="${escapeXml(feed.link)}"/>
+  <link href="${escapeXml(feed.selfLink)}" rel="self"/>
+  <updated>${feed.updatedAt.toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`
+}
+
+// Render jobs as an RSS 2.0 or Atom 1.0 document
+export function buildJobsFeed(jobs: Job[], format: FeedFormat, feed: FeedOptions): string {
+    return format === "atom" ? buildAtom(jobs, feed) : buildRss(jobs, feed)
+}
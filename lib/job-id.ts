@@ -0,0 +1,50 @@
+import { createHash } from "crypto"
+
+// Job IDs look like "<source>:<identifier>", e.g. "linkedin:3912345601" or "fixtures:h-1f3a9c0b2d4e".
+// The source prefix keeps IDs from different sources apart, "h-" marks a content hash.
+const CONTENT_HASH_PREFIX = "h-"
+
+export interface JobIdParts {
+    source: string
+    // Identifier assigned by the source, when the listing exposes one
+    externalId?: string
+    // Content hash used when there is no external identifier
+    contentHash?: string
+}
+
+export interface JobIdInput {
+    externalId?: string
+    title: string
+    company: string
+    location: string
+}
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+// Hash the fields that identify a posting when the source gives no ID
+function hashJobContent({ title, company, location }: JobIdInput): string {
+    return createHash("sha1")
+        .update([title, company, location].map(normalize).join("|"))
+        .digest("hex")
+        .slice(0, 12)
+}
+
+// Build a stable ID, so the same posting keeps its ID across scrapes
+export function createJobId(source: string, input: JobIdInput): string {
+    const identifier = input.externalId || `${CONTENT_HASH_PREFIX}${hashJobContent(input)}`
+    return `${source}:${identifier}`
+}
+
+export function parseJobId(id: string): JobIdParts | undefined {
+    const separator = id.indexOf(":")
+    if (separator <= 0) return undefined
+
+    const source = id.slice(0, separator)
+    const identifier = id.slice(separator + 1)
+
+    return identifier.startsWith(CONTENT_HASH_PREFIX)
+        ? { source, contentHash: identifier.slice(CONTENT_HASH_PREFIX.length) }
+        : { source, externalId: identifier }
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import type { Job } from "@/types/job"
+import type { ScrapeJobsResult } from "@/app/actions/scrape-jobs"
+import { applyResultFilters } from "@/lib/result-filters"
+import type { ScrapeError, ScrapeErrorBody } from "@/lib/scrape-errors"
+import type { ParsedScrapeOptions, ResultFilters } from "@/lib/search-params"
+
+// Body of /api/jobs, which /api/jobs/stream also sends as its final event
+export function toJobsResponse(result: ScrapeJobsResult, filters: ResultFilters, { page, depth }: ParsedScrapeOptions) {
+    const filtered = applyResultFilters(result.jobs, filters)
+
+    return {
+        jobs: filtered.jobs,
+        totalCount: filtered.jobs.length,
+        hiddenBySalary: filtered.hiddenBySalary,
+        hiddenByCompanyRules: result.hiddenByCompanyRules,
+        filteredOut: result.filteredOut,
+        facets: filtered.facets,
+        cache: result.cache,
+        source: result.source,
+        page,
+        depth,
+        pagesCrawled: result.pagesCrawled,
+        // Locations that failed while others returned jobs
+        ...(result.error ? { error: result.error } : {}),
+    }
+}
+
+// Correlation ID for a search, taken from a proxy's X-Request-Id when there is one
+export function getRequestId(request: NextRequest): string {
+    return request.headers.get("x-request-id") || randomUUID()
+}
+
+// Headers for a download or feed of a search's jobs. Locations of a multi-location search that failed
+// are named in X-Search-Warning, percent-encoded as location names need not be ASCII.
+export function searchResultHeaders(result: Pick<ScrapeJobsResult, "error">, requestId: string): Record<string, string> {
+    return {
+        "X-Request-Id": requestId,
+        ...(result.error ? { "X-Search-Warning": encodeURIComponent(result.error) } : {}),
+    }
+}
+
+// A failed search as JSON, with the error's status and a Retry-After header when waiting may help
+export function scrapeErrorResponse(error: ScrapeError, requestId: string): NextResponse {
+    return NextResponse.json(error.toBody(requestId), {
+        status: error.status,
+        headers: {
+            "X-Request-Id": requestId,
+            ...(error.retryAfter ? { "Retry-After": String(error.retryAfter) } : {}),
+        },
+    })
+}
+
+export type JobsResponse = ReturnType<typeof toJobsResponse>
+
+export interface JobStreamProgress {
+    // Result pages crawled, or postings opened for details
+    stage: "pages" | "details"
+    done: number
+    total: number
+}
+
+// One line of /api/jobs/stream
+export type JobStreamEvent =
+    | { type: "job"; job: Job }
+    | ({ type: "progress" } & JobStreamProgress)
+    | ({ type: "result" } & JobsResponse)
+    | ({ type: "error" } & ScrapeErrorBody)
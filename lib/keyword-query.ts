@@ -0,0 +1,294 @@
+import type { Job } from "@/types/job"
+
+// Parsed keyword expression. Terms are single words or quoted phrases.
+export type KeywordNode =
+    | { type: "term"; value: string; phrase: boolean }
+    | { type: "and"; children: KeywordNode[] }
+    | { type: "or"; children: KeywordNode[] }
+    | { type: "not"; child: KeywordNode }
+
+export interface KeywordQuery {
+    // What the user typed
+    input: string
+    root: KeywordNode
+    // Set when the input uses quotes, AND/OR/NOT, parentheses or -exclusions, which are then enforced locally.
+    // Plain word lists are left to LinkedIn's own matching, as before.
+    boolean: boolean
+}
+
+// A result LinkedIn returned that fails the full expression
+export interface FilteredOutJob {
+    job: Pick<Job, "id" | "title" | "company" | "location" | "url">
+    reasons: string[]
+}
+
+type Token =
+    | { type: "lparen" | "rparen" | "and" | "or" | "not" | "minus" }
+    | { type: "word"; value: string }
+    | { type: "phrase"; value: string }
+
+function tokenize(input: string): Token[] | string {
+    const tokens: Token[] = []
+    let i = 0
+
+    while (i < input.length) {
+        const char = input[i]
+
+        if (/\s/.test(char)) {
+            i++
+        } else if (char === "(" || char === ")") {
+            tokens.push({ type: char === "(" ? "lparen" : "rparen" })
+            i++
+        } else if (char === '"') {
+            const end = input.indexOf('"', i + 1)
+            if (end === -1) return "Unterminated quote"
+
+            const value = input.slice(i + 1, end).replace(/\s+/g, " ").trim()
+            if (value) tokens.push({ type: "phrase", value })
+            i = end + 1
+        } else if (char === "-" && i + 1 < input.length && /[^\s-]/.test(input[i + 1])) {
+            // A leading dash excludes the term, phrase or group right after it; "front-end" keeps its dash
+            tokens.push({ type: "minus" })
+            i++
+        } else {
+            const match = input.slice(i).match(/^[^\s()"]+/)!
+            const value = match[0]
+
+            // LinkedIn only treats upper-case operators as operators
+            if (value === "AND" || value === "OR" || value === "NOT") {
+                tokens.push({ type: value.toLowerCase() as "and" | "or" | "not" })
+            } else {
+                tokens.push({ type: "word", value })
+            }
+            i += value.length
+        }
+    }
+
+    return tokens
+}
+
+// Recursive descent over: or := and ("OR" and)*, and := unary ("AND"? unary)*, unary := ("-" | "NOT") unary | primary
+function parseTokens(tokens: Token[]): KeywordNode | string {
+    let position = 0
+
+    const peek = () => tokens[position]
+
+    function parseOr(): KeywordNode | string {
+        const children: KeywordNode[] = []
+
+        for (;;) {
+            const child = parseAnd()
+            if (typeof child === "string") return child
+            children.push(child)
+
+            if (peek()?.type !== "or") break
+            position++
+        }
+
+        return children.length === 1 ? children[0] : { type: "or", children }
+    }
+
+    function parseAnd(): KeywordNode | string {
+        const children: KeywordNode[] = []
+
+        for (;;) {
+            const child = parseUnary()
+            if (typeof child === "string") return child
+            children.push(child)
+
+            const next = peek()
+            if (next?.type === "and") {
+                position++
+            } else if (!next || next.type === "or" || next.type === "rparen") {
+                break
+            }
+        }
+
+        return children.length === 1 ? children[0] : { type: "and", children }
+    }
+
+    function parseUnary(): KeywordNode | string {
+        const token = peek()
+
+        if (token?.type === "minus" || token?.type === "not") {
+            position++
+            const child = parseUnary()
+            return typeof child === "string" ? child : { type: "not", child }
+        }
+
+        return parsePrimary()
+    }
+
+    function parsePrimary(): KeywordNode | string {
+        const token = tokens[position++]
+
+        if (!token) return "Query ends where a term was expected"
+        if (token.type === "word") return { type: "term", value: token.value, phrase: false }
+        if (token.type === "phrase") return { type: "term", value: token.value, phrase: true }
+
+        if (token.type === "lparen") {
+            const inner = parseOr()
+            if (typeof inner === "string") return inner
+            if (tokens[position++]?.type !== "rparen") return "Missing closing parenthesis"
+            return inner
+        }
+
+        return token.type === "rparen" ? "Unexpected closing parenthesis" : `Unexpected ${token.type.toUpperCase()}`
+    }
+
+    const root = parseOr()
+    if (typeof root === "string") return root
+    if (position < tokens.length) return "Unexpected closing parenthesis"
+
+    return root
+}
+
+// Parse a keywords field such as: "data engineer" AND (python OR scala) -intern
+export function parseKeywordQuery(input: string): { query: KeywordQuery; error?: undefined } | { error: string } {
+    const tokens = tokenize(input)
+    if (typeof tokens === "string") return { error: tokens }
+    if (tokens.length === 0) return { error: "Keywords are empty" }
+
+    const root = parseTokens(tokens)
+    if (typeof root === "string") return { error: root }
+
+    return {
+        query: {
+            input,
+            root,
+            boolean: tokens.some((token) => token.type !== "word"),
+        },
+    }
+}
+
+// Write a node back in LinkedIn's boolean syntax; null when it cannot be expressed without exclusions
+function formatNode(node: KeywordNode, parent?: KeywordNode["type"]): string | null {
+    switch (node.type) {
+        case "term":
+            return node.phrase ? `"${node.value}"` : node.value
+        // Exclusions are left out of the remote query and enforced locally, since LinkedIn's
+        // guest search handles NOT unreliably
+        case "not":
+            return null
+        case "and": {
+            const parts = node.children.map((child) => formatNode(child, "and")).filter((part) => part !== null)
+            if (parts.length === 0) return null
+            return parts.length === 1 ? parts[0] : parts.join(" AND ")
+        }
+        case "or": {
+            const parts = node.children.map((child) => formatNode(child, "or"))
+            // "a OR -b" also matches jobs without a, so sending just "a" would lose results
+            if (parts.some((part) => part === null)) return null
+            const joined = parts.join(" OR ")
+            return parent === "and" ? `(${joined})` : joined
+        }
+    }
+}
+
+// Best keywords string for LinkedIn: plain queries pass through unchanged
+export function toLinkedInKeywords(input: string): string {
+    const parsed = parseKeywordQuery(input)
+    if (parsed.error !== undefined || !parsed.query.boolean) return input
+
+    return formatNode(parsed.query.root) ?? ""
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Whole-word, case-insensitive match, so "java" does not match "javascript"
+function containsTerm(text: string, value: string): boolean {
+    const pattern = escapeRegExp(value.toLowerCase()).replace(/\s+/g, "\\s+")
+    return new RegExp(`(?<![a-z0-9])${pattern}(?![a-z0-9])`).test(text)
+}
+
+function describe(node: KeywordNode): string {
+    switch (node.type) {
+        case "term":
+            return `"${node.value}"`
+        case "not":
+            return `-${describe(node.child)}`
+        case "and":
+            return `(${node.children.map(describe).join(" AND ")})`
+        case "or":
+            return `(${node.children.map(describe).join(" OR ")})`
+    }
+}
+
+// Text a job is checked against, and whether it is the whole posting. Card placeholders are skipped until
+// the detail pass fills in descriptions.
+interface SearchableText {
+    text: string
+    complete: boolean
+}
+
+// True or false, or undefined when a term is not in the title or company and there is no description to
+// look in. LinkedIn matched the job on its full posting, so such a term may well be there.
+function matches(node: KeywordNode, searchable: SearchableText): boolean | undefined {
+    switch (node.type) {
+        case "term":
+            return containsTerm(searchable.text, node.value) || (searchable.complete ? false : undefined)
+        case "not": {
+            const child = matches(node.child, searchable)
+            return child === undefined ? undefined : !child
+        }
+        case "and": {
+            const results = node.children.map((child) => matches(child, searchable))
+            if (results.includes(false)) return false
+            return results.includes(undefined) ? undefined : true
+        }
+        case "or": {
+            const results = node.children.map((child) => matches(child, searchable))
+            if (results.includes(true)) return true
+            return results.includes(undefined) ? undefined : false
+        }
+    }
+}
+
+// Why the job fails the expression; empty when it matches or might match
+function mismatchReasons(node: KeywordNode, searchable: SearchableText): string[] {
+    if (matches(node, searchable) !== false) return []
+
+    switch (node.type) {
+        case "term":
+            return [`missing ${describe(node)}`]
+        case "not":
+            return [`contains excluded ${describe(node.child)}`]
+        case "and":
+            return node.children.flatMap((child) => mismatchReasons(child, searchable))
+        case "or":
+            return [`matches none of ${node.children.map(describe).join(", ")}`]
+    }
+}
+
+function searchableText(job: Job): SearchableText {
+    return {
+        text: [job.title, job.company, job.descriptionHtml ? job.description : ""].join("\n").toLowerCase(),
+        complete: !!job.descriptionHtml,
+    }
+}
+
+// Keep jobs that satisfy the full expression and explain the rest
+export function filterJobsByKeywordQuery(
+    jobs: Job[],
+    query: KeywordQuery,
+): { jobs: Job[]; filteredOut: FilteredOutJob[] } {
+    if (!query.boolean) return { jobs, filteredOut: [] }
+
+    const kept: Job[] = []
+    const filteredOut: FilteredOutJob[] = []
+
+    for (const job of jobs) {
+        const reasons = mismatchReasons(query.root, searchableText(job))
+
+        if (reasons.length === 0) {
+            kept.push(job)
+        } else {
+            const { id, title, company, location, url } = job
+            filteredOut.push({ job: { id, title, company, location, url }, reasons })
+        }
+    }
+
+    return { jobs: kept, filteredOut }
+}
@@ -0,0 +1,34 @@
+import type { Job } from "@/types/job"
+import { annualizeSalary } from "@/lib/salary"
+import { computeFacets, filterByFacets, sortJobs, type FacetCounts } from "@/lib/facets"
+import type { ResultFilters } from "@/lib/search-params"
+
+export interface FilteredJobs {
+    jobs: Job[]
+    // Jobs below the minimum salary, or without a salary while one is required
+    hiddenBySalary: number
+    // Counts over every scraped page that passed the salary filter
+    facets: FacetCounts
+}
+
+// Annualize salaries into the chosen currency, drop jobs the filters rule out and sort the rest
+export function applyResultFilters(
+    jobs: Job[],
+    { minSalary, salaryCurrency, facets, sort }: ResultFilters,
+): FilteredJobs {
+    const annualized = jobs.map((job) =>
+        job.salaryRange ? { ...job, annualSalary: annualizeSalary(job.salaryRange, salaryCurrency) } : job,
+    )
+
+    // A range qualifies when its top end reaches the minimum; jobs without a salary cannot be compared
+    const salaryMatches =
+        minSalary === undefined
+            ? annualized
+            : annualized.filter((job) => !!job.annualSalary && job.annualSalary.max >= minSalary)
+
+    return {
+        jobs: sortJobs(filterByFacets(salaryMatches, facets), sort),
+        hiddenBySalary: annualized.length - salaryMatches.length,
+        facets: computeFacets(salaryMatches, facets),
+    }
+}
@@ -0,0 +1,33 @@
+// US dollars per unit of each currency. Approximate mid-market rates, bundled so salaries can be
+// compared without a network call; refresh them together with EXCHANGE_RATES_AS_OF.
+export const USD_EXCHANGE_RATES = {
+    USD: 1,
+    EUR: 1.08,
+    GBP: 1.27,
+    CAD: 0.73,
+    AUD: 0.66,
+    NZD: 0.6,
+    CHF: 1.13,
+    SEK: 0.095,
+    NOK: 0.093,
+    DKK: 0.145,
+    PLN: 0.25,
+    INR: 0.012,
+    SGD: 0.74,
+    JPY: 0.0067,
+} as const
+
+export const EXCHANGE_RATES_AS_OF = "2026-10-01"
+
+export type CurrencyCode = keyof typeof USD_EXCHANGE_RATES
+
+export const CURRENCY_CODES = Object.keys(USD_EXCHANGE_RATES) as CurrencyCode[]
+
+export function isCurrencyCode(value: string | null): value is CurrencyCode {
+    return !!value && Object.hasOwn(USD_EXCHANGE_RATES, value)
+}
+
+// Convert an amount between two bundled currencies
+export function convertCurrency(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+    return (amount * USD_EXCHANGE_RATES[from]) / USD_EXCHANGE_RATES[to]
+}
@@ -0,0 +1,162 @@
+import { CURRENCY_CODES, convertCurrency, type CurrencyCode } from "./exchange-rates"
+
+export { CURRENCY_CODES, EXCHANGE_RATES_AS_OF, convertCurrency, isCurrencyCode } from "./exchange-rates"
+export type { CurrencyCode } from "./exchange-rates"
+
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year"
+
+// Pay as stated by the posting, in its own currency and period
+export interface SalaryRange {
+    min: number
+    max: number
+    currency: CurrencyCode
+    period: SalaryPeriod
+}
+
+// Yearly pay converted to the currency the user compares salaries in
+export interface AnnualSalary {
+    min: number
+    max: number
+    currency: CurrencyCode
+}
+
+// Full-time working time used to annualize hourly, daily, weekly and monthly pay
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+    hour: 2080,
+    day: 260,
+    week: 52,
+    month: 12,
+    year: 1,
+}
+
+// Symbols resolve to a currency unless the text also names one, as in "$140,000 CAD"
+const CURRENCY_SYMBOLS: Record<string, CurrencyCode> = {
+    "US$": "USD",
+    CA$: "CAD",
+    C$: "CAD",
+    AU$: "AUD",
+    A$: "AUD",
+    NZ$: "NZD",
+    S$: "SGD",
+    $: "USD",
+    "€": "EUR",
+    "£": "GBP",
+    "₹": "INR",
+    "¥": "JPY",
+}
+
+const PERIOD_WORDS: Record<string, SalaryPeriod> = {
+    hour: "hour",
+    hr: "hour",
+    hourly: "hour",
+    day: "day",
+    daily: "day",
+    week: "week",
+    wk: "week",
+    weekly: "week",
+    month: "month",
+    mo: "month",
+    monthly: "month",
+    year: "year",
+    yr: "year",
+    annum: "year",
+    annually: "year",
+    yearly: "year",
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+const SYMBOL = Object.keys(CURRENCY_SYMBOLS)
+    // Longest first, so "US$" wins over "$"
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")
+const CODE = CURRENCY_CODES.join("|")
+// "150,000", "12,00,000" (Indian grouping) or "62.50". Never ends inside a number, so "$50m" cannot backtrack to "$5".
+const AMOUNT = String.raw`(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d{1,2}(?:,\d{2})+,\d{3}|\d+(?:\.\d+)?)(?!\d|[,.]\d)`
+// Funding and revenue figures rather than pay
+const NOT_PAY = String.raw`(?!\s?(?:million|billion|mm?|bn?)\b)`
+const PERIOD = String.raw`(?:\/\s?|per\s|an?\s)?(?:${Object.keys(PERIOD_WORDS).join("|")})\b`
+
+// "$60/hr - $75/hr", "$120k - $145k annually", "€25 per hour", "$140,000 - $170,000 USD per year", "85,000 EUR"
+const SALARY_PATTERN = new RegExp(
+    String.raw`(?:(?<symbol>${SYMBOL})\s?|(?<leadingCode>${CODE})\s)?(?<min>${AMOUNT})(?<minK>k\b)?${NOT_PAY}(?:\s*(?<minPeriod>${PERIOD}))?` +
+        String.raw`(?:\s*(?:-|–|—|to)\s*(?:${SYMBOL}|(?:${CODE})\s)?\s?(?<max>${AMOUNT})(?<maxK>k\b)?${NOT_PAY})?` +
+        String.raw`(?:\s*(?<trailingCode>${CODE})\b)?(?:\s*(?<maxPeriod>${PERIOD}))?`,
+    "gi",
+)
+
+function parseAmount(value: string, thousands: boolean): number {
+    return Number(value.replace(/,/g, "")) * (thousands ? 1000 : 1)
+}
+
+function parsePeriod(value: string | undefined): SalaryPeriod | undefined {
+    const word = value
+        ?.toLowerCase()
+        .replace(/^(\/\s?|per\s|an?\s)/, "")
+        .trim()
+    return word ? PERIOD_WORDS[word] : undefined
+}
+
+// Postings that leave out the period are read by magnitude: 45 is hourly, 6,000 monthly, 90,000 yearly
+function guessPeriod(amount: number): SalaryPeriod {
+    if (amount < 500) return "hour"
+    if (amount < 15000) return "month"
+    return "year"
+}
+
+// Find the first salary in card metadata or a description; amounts without a currency are ignored
+export function parseSalary(text: string): SalaryRange | undefined {
+    for (const match of text.replace(/\u00a0/g, " ").matchAll(SALARY_PATTERN)) {
+        const groups = match.groups || {}
+        const code = (groups.trailingCode || groups.leadingCode)?.toUpperCase() as CurrencyCode | undefined
+        const currency = code || (groups.symbol ? CURRENCY_SYMBOLS[groups.symbol.toUpperCase()] : undefined)
+        if (!currency) continue
+
+        let min = parseAmount(groups.min, !!groups.minK)
+        let max = groups.max ? parseAmount(groups.max, !!groups.maxK) : min
+
+        // "$120-145k" applies the k to both ends
+        if (groups.maxK && !groups.minK && min < 1000) min *= 1000
+        if (max < min) [min, max] = [max, min]
+        if (!min) continue
+
+        const period = parsePeriod(groups.maxPeriod) || parsePeriod(groups.minPeriod) || guessPeriod(max)
+
+        return { min, max, currency, period }
+    }
+
+    return undefined
+}
+
+// Yearly pay in `currency`, using the bundled exchange rates
+export function annualizeSalary(range: SalaryRange, currency: CurrencyCode): AnnualSalary {
+    const perYear = PERIODS_PER_YEAR[range.period]
+
+    return {
+        min: Math.round(convertCurrency(range.min * perYear, range.currency, currency)),
+        max: Math.round(convertCurrency(range.max * perYear, range.currency, currency)),
+        currency,
+    }
+}
+
+function formatAmount(amount: number, currency: CurrencyCode): string {
+    return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency,
+        maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    }).format(amount)
+}
+
+// "$150,000 - $190,000 / year", or "€25 / hour" when min and max are the same
+export function formatSalaryRange({ min, max, currency, period }: SalaryRange): string {
+    const amounts =
+        min === max ? formatAmount(min, currency) : `${formatAmount(min, currency)} - ${formatAmount(max, currency)}`
+    return `${amounts} / ${period}`
+}
+
+export function formatAnnualSalary({ min, max, currency }: AnnualSalary): string {
+    return formatSalaryRange({ min, max, currency, period: "year" })
+}
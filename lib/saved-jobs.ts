@@ -0,0 +1,49 @@
+import type { Job } from "@/types/job"
+import { createJsonStore } from "@/lib/store/json-store"
+
+export interface SavedJob {
+    // Snapshot of the job when it was saved, since search results expire from the cache
+    job: Job
+    savedAt: string
+}
+
+const store = createJsonStore<Record<string, SavedJob>>("saved-jobs", () => ({}))
+
+// Most recently saved first
+export async function listSavedJobs(): Promise<SavedJob[]> {
+    const savedJobs = await store.read()
+    return Object.values(savedJobs).sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+export async function getSavedJob(id: string): Promise<SavedJob | undefined> {
+    const savedJobs = await store.read()
+    return savedJobs[id]
+}
+
+// Saving a job again refreshes its snapshot but keeps the original save time
+export async function saveJob(job: Job): Promise<SavedJob> {
+    return store.update((savedJobs) => {
+        const savedJob = { job, savedAt: savedJobs[job.id]?.savedAt || new Date().toISOString() }
+        savedJobs[job.id] = savedJob
+        return savedJob
+    })
+}
+
+// Returns false when the job was not saved
+export async function removeSavedJob(id: string): Promise<boolean> {
+    return store.update((savedJobs) => {
+        if (!savedJobs[id]) return false
+        delete savedJobs[id]
+        return true
+    })
+}
+
+// Check the fields the UI relies on before trusting a job sent by a client
+export function isJob(value: unknown): value is Job {
+    if (!value || typeof value !== "object") return false
+
+    const job = value as Record<string, unknown>
+    return ["id", "title", "company", "location", "jobType", "datePosted", "description", "url"].every(
+        (field) => typeof job[field] === "string",
+    )
+}
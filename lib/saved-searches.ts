@@ -0,0 +1,230 @@
+import { randomUUID } from "crypto"
+import type { Job, ScrapeOptions } from "@/types/job"
+import { createJsonStore } from "@/lib/store/json-store"
+import { isJobSourceId, MAX_CRAWL_DEPTH } from "@/lib/sources"
+import {
+    MAX_POSTED_WITHIN_HOURS,
+    MAX_SEARCH_DISTANCE,
+    MAX_SEARCH_LOCATIONS,
+    isExperienceLevel,
+    isSearchSort,
+    isWorkplaceType,
+    toLocationList,
+} from "@/lib/search-filters"
+
+// Search fields kept with a saved search; paging always starts at page 1
+export type SavedSearchOptions = Omit<ScrapeOptions, "page">
+
+export interface SavedSearchRun {
+    id: string
+    startedAt: string
+    finishedAt: string
+    jobCount: number
+    // Jobs removed by the company allowlist and blocklist
+    hiddenByCompanyRules?: number
+    // Jobs not seen in any earlier run of this search
+    newJobs: Job[]
+    error?: string
+}
+
+export interface SavedSearch {
+    id: string
+    name: string
+    options: SavedSearchOptions
+    // Re-run the search this often
+    intervalMinutes: number
+    createdAt: string
+    nextRunAt: string
+    lastRunAt?: string
+    // Every job ID returned so far, used to tell which jobs are new
+    seenJobIds: string[]
+    // Most recent first
+    runs: SavedSearchRun[]
+}
+
+// Allowed re-run intervals, from hourly to weekly
+export const MIN_INTERVAL_MINUTES = 60
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60
+
+// History kept per saved search
+const MAX_RUNS = 50
+const MAX_SEEN_JOB_IDS = 5000
+
+const store = createJsonStore<Record<string, SavedSearch>>("saved-searches", () => ({}))
+
+export function clampInterval(minutes: number): number {
+    return Math.min(MAX_INTERVAL_MINUTES, Math.max(MIN_INTERVAL_MINUTES, Math.round(minutes)))
+}
+
+// Read saved search options from an API request body, or undefined when keywords are missing
+// `maxDepth` is higher for background scrapes, which are not bound by a request timeout
+export function parseSavedSearchOptions(value: unknown, maxDepth = MAX_CRAWL_DEPTH): SavedSearchOptions | undefined {
+    if (!value || typeof value !== "object") return undefined
+
+    const options = value as Record<string, unknown>
+    const text = (field: string) => (typeof options[field] === "string" ? (options[field] as string).trim() : undefined)
+    const list = (field: string) => (Array.isArray(options[field]) ? (options[field] as unknown[]) : [])
+    // Whole numbers from 1 to max, or undefined
+    const count = (field: string, max: number) => {
+        const value = Number(options[field])
+        return Number.isInteger(value) && value > 0 && value <= max ? value : undefined
+    }
+
+    const keywords = text("keywords")
+    if (!keywords) return undefined
+
+    const source = text("source")
+    const depth = Number(options.depth)
+    const sortBy = text("sortBy")
+    const locations = toLocationList(
+        Array.isArray(options.location)
+            ? options.location.filter((location): location is string => typeof location === "string")
+            : text("location"),
+    ).slice(0, MAX_SEARCH_LOCATIONS)
+
+    return {
+        keywords,
+        location: locations.length > 1 ? locations : locations[0] || "",
+        jobType: text("jobType") || "all",
+        datePosted: text("datePosted") || "anytime",
+        postedWithinHours: count("postedWithinHours", MAX_POSTED_WITHIN_HOURS),
+        experienceLevels: list("experienceLevels").filter(isExperienceLevel),
+        workplaceTypes: list("workplaceTypes").filter(isWorkplaceType),
+        distance: count("distance", MAX_SEARCH_DISTANCE),
+        ...(isSearchSort(sortBy) ? { sortBy } : {}),
+        depth: Number.isFinite(depth) ? Math.min(maxDepth, Math.max(1, Math.round(depth))) : 1,
+        includeDetails: options.includeDetails === true,
+        ...(isJobSourceId(source) ? { source } : {}),
+    }
+}
+
+// Leave out the seen job IDs, which only the scheduler needs
+export function toSavedSearchResponse({ seenJobIds, ...savedSearch }: SavedSearch) {
+    return { ...savedSearch, seenJobCount: seenJobIds.length }
+}
+
+function addMinutes(date: Date, minutes: number): string {
+    return new Date(date.getTime() + minutes * 60 * 1000).toISOString()
+}
+
+// Newest first
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+    const savedSearches = await store.read()
+    return Object.values(savedSearches).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const savedSearches = await store.read()
+    return savedSearches[id]
+}
+
+// A new saved search runs right away on the next scheduler tick
+export async function createSavedSearch(
+    name: string,
+    options: SavedSearchOptions,
+    intervalMinutes: number,
+): Promise<SavedSearch> {
+    return store.update((savedSearches) => {
+        const now = new Date().toISOString()
+        const savedSearch: SavedSearch = {
+            id: randomUUID(),
+            name,
+            options,
+            intervalMinutes: clampInterval(intervalMinutes),
+            createdAt: now,
+            nextRunAt: now,
+            seenJobIds: [],
+            runs: [],
+        }
+
+        savedSearches[savedSearch.id] = savedSearch
+        return savedSearch
+    })
+}
+
+// Returns false when there was no such saved search
+export async function deleteSavedSearch(id: string): Promise<boolean> {
+    return store.update((savedSearches) => {
+        if (!savedSearches[id]) return false
+        delete savedSearches[id]
+        return true
+    })
+}
+
+// Saved searches whose next run is due
+export async function listDueSavedSearches(now = new Date()): Promise<SavedSearch[]> {
+    const savedSearches = await listSavedSearches()
+    return savedSearches.filter((savedSearch) => new Date(savedSearch.nextRunAt) <= now)
+}
+
+// Store the outcome of a run and work out which jobs are new.
+// The first successful run only records a baseline, so every job is not reported as new.
+export async function recordSavedSearchRun(
+    id: string,
+    startedAt: Date,
+    result: { jobs: Job[]; hiddenByCompanyRules?: number; error?: string },
+): Promise<SavedSearchRun | undefined> {
+    return store.update((savedSearches) => {
+        const savedSearch = savedSearches[id]
+        if (!savedSearch) return undefined
+
+        const finishedAt = new Date()
+        const seenJobIds = new Set(savedSearch.seenJobIds)
+        // Only a run that came back empty with an error failed; one where some locations of a
+        // multi-location search failed still reports what the others found
+        const failed = (run: { error?: string; jobCount: number }) => !!run.error && run.jobCount === 0
+        const isFailed = failed({ error: result.error, jobCount: result.jobs.length })
+        const isBaseline = !savedSearch.runs.some((run) => !failed(run))
+        // A repost of a job already seen is not new, whichever copy the dedupe stage kept
+        const jobIds = (job: Job) => [job.id, ...(job.duplicates || []).map((duplicate) => duplicate.id)]
+        const newJobs =
+            isFailed || isBaseline ? [] : result.jobs.filter((job) => !jobIds(job).some((jobId) => seenJobIds.has(jobId)))
+
+        const run: SavedSearchRun = {
+            id: randomUUID(),
+            startedAt: startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            jobCount: result.jobs.length,
+            ...(result.hiddenByCompanyRules ? { hiddenByCompanyRules: result.hiddenByCompanyRules } : {}),
+            newJobs,
+            ...(result.error ? { error: result.error } : {}),
+        }
+
+        for (const job of result.jobs) {
+            jobIds(job).forEach((jobId) => seenJobIds.add(jobId))
+        }
+
+        savedSearch.seenJobIds = Array.from(seenJobIds).slice(-MAX_SEEN_JOB_IDS)
+        savedSearch.runs = [run, ...savedSearch.runs].slice(0, MAX_RUNS)
+        savedSearch.lastRunAt = run.finishedAt
+        savedSearch.nextRunAt = addMinutes(startedAt, savedSearch.intervalMinutes)
+
+        return run
+    })
+}
+
+export interface WhatsNewEntry {
+    savedSearch: Pick<SavedSearch, "id" | "name">
+    job: Job
+    foundAt: string
+}
+
+// New jobs from every saved search over the last `days` days, newest first
+export async function listNewJobs(days = 7): Promise<WhatsNewEntry[]> {
+    const since = Date.now() - days * 24 * 60 * 60 * 1000
+    const savedSearches = await listSavedSearches()
+
+    return savedSearches
+        .flatMap((savedSearch) =>
+            savedSearch.runs
+                .filter((run) => new Date(run.finishedAt).getTime() >= since)
+                .flatMap((run) =>
+                    run.newJobs.map((job) => ({
+                        savedSearch: { id: savedSearch.id, name: savedSearch.name },
+                        job,
+                        foundAt: run.finishedAt,
+                    })),
+                ),
+        )
+        .sort((a, b) => b.foundAt.localeCompare(a.foundAt))
+}
@@ -0,0 +1,65 @@
+import { scrapeLinkedInJobs } from "@/app/actions/scrape-jobs"
+import { NoResultsError } from "@/lib/scrape-errors"
+import { listDueSavedSearches, recordSavedSearchRun, type SavedSearch, type SavedSearchRun } from "@/lib/saved-searches"
+
+// How often the scheduler looks for due saved searches
+const TICK_INTERVAL = 60 * 1000 // 1 minute
+
+let timer: ReturnType<typeof setInterval> | undefined
+let isTicking = false
+
+// Run one saved search now and record the outcome in its history
+export async function runSavedSearch(savedSearch: SavedSearch): Promise<SavedSearchRun | undefined> {
+    const startedAt = new Date()
+
+    try {
+        const result = await scrapeLinkedInJobs({ ...savedSearch.options, page: 1 }, { skipCache: true })
+        return await recordSavedSearchRun(savedSearch.id, startedAt, result)
+    } catch (err) {
+        // An empty search is a successful run with nothing new
+        if (err instanceof NoResultsError) {
+            return recordSavedSearchRun(savedSearch.id, startedAt, { jobs: [] })
+        }
+
+        console.error(`Saved search "${savedSearch.name}" failed:`, err)
+        return recordSavedSearchRun(savedSearch.id, startedAt, {
+            jobs: [],
+            error: err instanceof Error ? err.message : "Unknown error",
+        })
+    }
+}
+
+// Run due saved searches one at a time, so a morning full of searches does not launch many browsers at once
+async function tick() {
+    if (isTicking) return
+    isTicking = true
+
+    try {
+        for (const savedSearch of await listDueSavedSearches()) {
+            console.log(`Running saved search "${savedSearch.name}"`)
+            await runSavedSearch(savedSearch)
+        }
+    } catch (err) {
+        console.error("Saved search scheduler failed:", err)
+    } finally {
+        isTicking = false
+    }
+}
+
+// Start the local scheduler once per server process
+export function startSavedSearchScheduler() {
+    if (timer) return
+
+    timer = setInterval(tick, TICK_INTERVAL)
+    // Do not keep the process alive just for the scheduler
+    timer.unref?.()
+
+    tick()
+}
+
+export function stopSavedSearchScheduler() {
+    if (timer) {
+        clearInterval(timer)
+        timer = undefined
+    }
+}
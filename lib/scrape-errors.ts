@@ -0,0 +1,117 @@
+// Why a search failed. Kept free of server imports so the results page can tell the codes apart.
+export const SCRAPE_ERROR_CODES = [
+    "timeout",
+    "navigation_failed",
+    "blocked",
+    "layout_changed",
+    "no_results",
+    "busy",
+    "internal",
+] as const
+
+export type ScrapeErrorCode = (typeof SCRAPE_ERROR_CODES)[number]
+
+export function isScrapeErrorCode(value: unknown): value is ScrapeErrorCode {
+    return SCRAPE_ERROR_CODES.includes(value as ScrapeErrorCode)
+}
+
+// Body of a failed /api/jobs response, and of the /api/jobs/stream error event
+export interface ScrapeErrorBody {
+    error: string
+    code: ScrapeErrorCode
+    // Seconds to wait before trying again, when waiting is likely to help
+    retryAfter?: number
+    // Also in the server log, so a report can be matched to what went wrong
+    requestId: string
+}
+
+interface ScrapeErrorOptions extends ErrorOptions {
+    code: ScrapeErrorCode
+    status: number
+    retryAfter?: number
+}
+
+// A search failure with the HTTP status and code the API reports for it
+export class ScrapeError extends Error {
+    readonly code: ScrapeErrorCode
+    readonly status: number
+    readonly retryAfter?: number
+
+    constructor(message: string, { code, status, retryAfter, ...options }: ScrapeErrorOptions) {
+        super(message, options)
+        this.name = new.target.name
+        this.code = code
+        this.status = status
+        this.retryAfter = retryAfter
+    }
+
+    toBody(requestId: string): ScrapeErrorBody {
+        return {
+            error: this.message,
+            code: this.code,
+            ...(this.retryAfter ? { retryAfter: this.retryAfter } : {}),
+            requestId,
+        }
+    }
+}
+
+// The page or the whole search took too long
+export class ScrapeTimeoutError extends ScrapeError {
+    constructor(message = "The search took too long", options?: ErrorOptions) {
+        super(message, { code: "timeout", status: 504, retryAfter: 30, ...options })
+    }
+}
+
+// The page could not be loaded at all, e.g. a network error or an error status
+export class NavigationFailedError extends ScrapeError {
+    constructor(message = "The job search page could not be loaded", options?: ErrorOptions) {
+        super(message, { code: "navigation_failed", status: 502, retryAfter: 60, ...options })
+    }
+}
+
+// The site rate limited the scraper or asked it to sign in; trying again right away makes it worse
+export class BlockedOrLoginWallError extends ScrapeError {
+    constructor(message = "The job site blocked the search or asked to sign in", options?: ErrorOptions) {
+        super(message, { code: "blocked", status: 503, retryAfter: 15 * 60, ...options })
+    }
+}
+
+// The page loaded but no longer looks the way the parser expects; waiting will not fix it
+export class LayoutChangedError extends ScrapeError {
+    constructor(message = "The job search page has changed and could not be read", options?: ErrorOptions) {
+        super(message, { code: "layout_changed", status: 502, ...options })
+    }
+}
+
+// The search ran but the site listed no jobs for it
+export class NoResultsError extends ScrapeError {
+    constructor(message = "No jobs were found for this search", options?: ErrorOptions) {
+        super(message, { code: "no_results", status: 404, ...options })
+    }
+}
+
+// Every browser is taken and this search was turned away, or waited too long for one
+export class ServerBusyError extends ScrapeError {
+    constructor(message = "Too many searches are running, try again shortly", options?: ErrorOptions) {
+        super(message, { code: "busy", status: 503, retryAfter: 30, ...options })
+    }
+}
+
+// Anything else, such as a bug or the browser failing to start
+export class InternalScrapeError extends ScrapeError {
+    constructor(message = "Something went wrong while searching", options?: ErrorOptions) {
+        super(message, { code: "internal", status: 500, ...options })
+    }
+}
+
+// Classify anything a scrape threw. Aborted and timed out signals, and Playwright's own timeouts,
+// all throw errors named TimeoutError.
+export function toScrapeError(err: unknown): ScrapeError {
+    if (err instanceof ScrapeError) return err
+
+    if (err instanceof Error && err.name === "TimeoutError") {
+        return new ScrapeTimeoutError(undefined, { cause: err })
+    }
+
+    return new InternalScrapeError(undefined, { cause: err })
+}
@@ -0,0 +1,135 @@
+import type { Job } from "@/types/job"
+import { scrapeLinkedInJobs } from "@/app/actions/scrape-jobs"
+import {
+    cancelBackgroundScrape,
+    claimNextBackgroundScrape,
+    createBackgroundScrape,
+    finishBackgroundScrape,
+    type BackgroundScrape,
+    type BackgroundScrapeProgress,
+} from "@/lib/background-scrapes"
+import type { SavedSearchOptions } from "@/lib/saved-searches"
+import { NoResultsError, toScrapeError } from "@/lib/scrape-errors"
+
+// A background scrape still running after this long is stopped
+const SCRAPE_TIMEOUT = 10 * 60 * 1000 // 10 minutes
+
+interface LiveScrape {
+    controller: AbortController
+    progress: BackgroundScrapeProgress
+    // Jobs from the result pages crawled so far
+    jobs: Job[]
+}
+
+// The running scrape and whether the queue is being worked through. Kept on globalThis because the
+// queue is started from instrumentation and from routes, which each bundle their own copy of this module.
+const globalForQueue = globalThis as typeof globalThis & {
+    scrapeQueue?: {
+        draining: boolean
+        // A scrape was queued while draining, after the queue may have been checked for the last time
+        recheck: boolean
+        live: Map<string, LiveScrape>
+    }
+}
+const queue = (globalForQueue.scrapeQueue ??= { draining: false, recheck: false, live: new Map() })
+
+async function runScrape(scrape: BackgroundScrape) {
+    const live: LiveScrape = { controller: new AbortController(), progress: {}, jobs: [] }
+    const seenIds = new Set<string>()
+    const timeout = AbortSignal.timeout(SCRAPE_TIMEOUT)
+    queue.live.set(scrape.id, live)
+
+    try {
+        const result = await scrapeLinkedInJobs(
+            { ...scrape.options, page: 1 },
+            {
+                signal: AbortSignal.any([live.controller.signal, timeout]),
+                onProgress: (event) => {
+                    if (event.type === "jobs") {
+                        // The same job can arrive again from another location
+                        live.jobs.push(...event.jobs.filter((job) => !seenIds.has(job.id) && seenIds.add(job.id)))
+                    } else {
+                        live.progress[event.type] = { stage: event.type, done: event.done, total: event.total }
+                    }
+                },
+            },
+        )
+
+        await finishBackgroundScrape(scrape.id, {
+            // An error alongside results means one of several locations failed
+            status: "completed",
+            progress: live.progress,
+            jobs: result.jobs,
+            pagesCrawled: result.pagesCrawled,
+            hiddenByCompanyRules: result.hiddenByCompanyRules,
+            error: result.error,
+        })
+    } catch (err) {
+        const error = toScrapeError(err)
+
+        if (error instanceof NoResultsError) {
+            await finishBackgroundScrape(scrape.id, { status: "completed", progress: live.progress, jobs: [] })
+        } else if (!live.controller.signal.aborted) {
+            // A cancelled scrape is already marked as such
+            console.error(`Background scrape ${scrape.id} failed:`, err)
+            await finishBackgroundScrape(scrape.id, {
+                status: "failed",
+                progress: live.progress,
+                jobs: live.jobs,
+                error: timeout.aborted ? `Scrape timed out after ${SCRAPE_TIMEOUT / 60000} minutes` : error.message,
+                code: error.code,
+            })
+        }
+    } finally {
+        queue.live.delete(scrape.id)
+    }
+}
+
+// Run queued scrapes one at a time, so a deep crawl does not hold every pooled browser at once
+async function drain() {
+    if (queue.draining) {
+        queue.recheck = true
+        return
+    }
+    queue.draining = true
+
+    try {
+        do {
+            queue.recheck = false
+            for (let scrape = await claimNextBackgroundScrape(); scrape; scrape = await claimNextBackgroundScrape()) {
+                await runScrape(scrape)
+            }
+        } while (queue.recheck)
+    } catch (err) {
+        console.error("Background scrape queue failed:", err)
+    } finally {
+        queue.draining = false
+    }
+}
+
+// Pick up scrapes left queued or cut off when the server last stopped
+export function startScrapeQueue() {
+    drain()
+}
+
+export async function enqueueScrape(options: SavedSearchOptions): Promise<BackgroundScrape> {
+    const scrape = await createBackgroundScrape(options)
+    drain()
+    return scrape
+}
+
+// Returns false when there was no such scrape or it had already finished
+export async function cancelScrape(id: string): Promise<boolean> {
+    if (!(await cancelBackgroundScrape(id))) return false
+
+    queue.live.get(id)?.controller.abort()
+    return true
+}
+
+// A running scrape reports the progress and jobs so far
+export function withLiveProgress(scrape: BackgroundScrape): BackgroundScrape {
+    const live = queue.live.get(scrape.id)
+    if (!live || scrape.status !== "running") return scrape
+
+    return { ...scrape, progress: live.progress, jobs: live.jobs }
+}
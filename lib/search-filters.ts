@@ -0,0 +1,77 @@
+// LinkedIn search filters beyond job type and date posted.
+// Kept free of server imports so JobSearchForm can render the options.
+
+export const EXPERIENCE_LEVELS = ["internship", "entry", "associate", "midSenior", "director", "executive"] as const
+
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number]
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+    internship: "Internship",
+    entry: "Entry level",
+    associate: "Associate",
+    midSenior: "Mid-Senior level",
+    director: "Director",
+    executive: "Executive",
+}
+
+export const WORKPLACE_TYPES = ["onsite", "remote", "hybrid"] as const
+
+export type WorkplaceType = (typeof WORKPLACE_TYPES)[number]
+
+export const WORKPLACE_TYPE_LABELS: Record<WorkplaceType, string> = {
+    onsite: "On-site",
+    remote: "Remote",
+    hybrid: "Hybrid",
+}
+
+// Search radius choices around `location`, in miles
+export const SEARCH_DISTANCES = [5, 10, 25, 50, 100] as const
+
+export const MAX_SEARCH_DISTANCE = 100
+
+// Order LinkedIn returns results in, before any local sorting
+export const SEARCH_SORTS = ["relevance", "recent"] as const
+
+export type SearchSort = (typeof SEARCH_SORTS)[number]
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+    relevance: "Most relevant",
+    recent: "Most recent",
+}
+
+// Locations one search can fan out to
+export const MAX_SEARCH_LOCATIONS = 5
+
+// Longest custom "posted within the past N hours" window
+export const MAX_POSTED_WITHIN_HOURS = 30 * 24
+
+// Trimmed locations without blanks or repeats; a single string is one location, since names contain commas
+export function toLocationList(location: string | readonly string[] | undefined): string[] {
+    const seen = new Set<string>()
+
+    return (typeof location === "string" ? [location] : location || [])
+        .map((value) => value.trim())
+        .filter((value) => {
+            const key = value.toLowerCase()
+            if (!value || seen.has(key)) return false
+            seen.add(key)
+            return true
+        })
+}
+
+// "Berlin / Paris", for titles and summaries
+export function formatLocations(location: string | readonly string[] | undefined): string {
+    return toLocationList(location).join(" / ")
+}
+
+export function isExperienceLevel(value: unknown): value is ExperienceLevel {
+    return typeof value === "string" && (EXPERIENCE_LEVELS as readonly string[]).includes(value)
+}
+
+export function isWorkplaceType(value: unknown): value is WorkplaceType {
+    return typeof value === "string" && (WORKPLACE_TYPES as readonly string[]).includes(value)
+}
+
+export function isSearchSort(value: unknown): value is SearchSort {
+    return typeof value === "string" && (SEARCH_SORTS as readonly string[]).includes(value)
+}
@@ -0,0 +1,167 @@
+import type { ScrapeOptions } from "@/types/job"
+import { isCurrencyCode, type CurrencyCode } from "@/lib/salary"
+import { FACET_FIELDS, facetParam, isJobSort, type FacetSelections, type JobSort } from "@/lib/facets"
+import { DEFAULT_JOB_SOURCE, MAX_CRAWL_DEPTH, isJobSourceId, type JobSourceId } from "@/lib/sources"
+import { DEFAULT_DEDUPE_THRESHOLD } from "@/lib/dedupe"
+import { parseKeywordQuery } from "@/lib/keyword-query"
+import {
+    MAX_POSTED_WITHIN_HOURS,
+    MAX_SEARCH_DISTANCE,
+    MAX_SEARCH_LOCATIONS,
+    isExperienceLevel,
+    isSearchSort,
+    isWorkplaceType,
+    toLocationList,
+    type ExperienceLevel,
+    type WorkplaceType,
+} from "@/lib/search-filters"
+
+// Filters LinkedIn applies only when set
+type OptionalScrapeOption = "distance" | "postedWithinHours" | "sortBy"
+
+export type ParsedScrapeOptions = Required<Omit<ScrapeOptions, "source" | OptionalScrapeOption>> &
+    Pick<ScrapeOptions, OptionalScrapeOption> & { source: JobSourceId }
+
+// "entry,associate" style lists; empty entries are ignored
+function parseList(searchParams: URLSearchParams, name: string): string[] {
+    return (searchParams.get(name) || "")
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean)
+}
+
+// Read search options from the query string shared by /api/jobs and the routes built on it
+export function parseScrapeOptions(
+    searchParams: URLSearchParams,
+): { options: ParsedScrapeOptions; error?: undefined } | { error: string } {
+    const keywords = searchParams.get("keywords")
+
+    if (!keywords) {
+        return { error: "Keywords parameter is required" }
+    }
+
+    const keywordQuery = parseKeywordQuery(keywords)
+
+    if (keywordQuery.error !== undefined) {
+        return { error: `Invalid keywords: ${keywordQuery.error}` }
+    }
+
+    const source = searchParams.get("source") || DEFAULT_JOB_SOURCE
+
+    if (!isJobSourceId(source)) {
+        return { error: `Unknown job source: ${source}` }
+    }
+
+    const dedupeThreshold = Number(searchParams.get("dedupeThreshold") || DEFAULT_DEDUPE_THRESHOLD)
+
+    if (!Number.isFinite(dedupeThreshold) || dedupeThreshold <= 0 || dedupeThreshold > 1) {
+        return { error: "dedupeThreshold must be greater than 0 and at most 1" }
+    }
+
+    // Repeat the parameter to search several locations, e.g. ?location=Berlin&location=Paris
+    const locations = toLocationList(searchParams.getAll("location"))
+
+    if (locations.length > MAX_SEARCH_LOCATIONS) {
+        return { error: `At most ${MAX_SEARCH_LOCATIONS} locations can be searched at once` }
+    }
+
+    const experienceLevels = parseList(searchParams, "experienceLevel")
+    const unknownLevel = experienceLevels.find((level) => !isExperienceLevel(level))
+
+    if (unknownLevel) {
+        return { error: `Unknown experience level: ${unknownLevel}` }
+    }
+
+    const workplaceTypes = parseList(searchParams, "workplaceType")
+    const unknownWorkplace = workplaceTypes.find((type) => !isWorkplaceType(type))
+
+    if (unknownWorkplace) {
+        return { error: `Unknown workplace type: ${unknownWorkplace}` }
+    }
+
+    const distanceParam = searchParams.get("distance")
+    const distance = distanceParam ? Number(distanceParam) : undefined
+
+    if (distance !== undefined && (!Number.isInteger(distance) || distance <= 0 || distance > MAX_SEARCH_DISTANCE)) {
+        return { error: `distance must be a whole number of miles from 1 to ${MAX_SEARCH_DISTANCE}` }
+    }
+
+    const postedWithinParam = searchParams.get("postedWithinHours")
+    const postedWithinHours = postedWithinParam ? Number(postedWithinParam) : undefined
+
+    if (
+        postedWithinHours !== undefined &&
+        (!Number.isInteger(postedWithinHours) || postedWithinHours <= 0 || postedWithinHours > MAX_POSTED_WITHIN_HOURS)
+    ) {
+        return { error: `postedWithinHours must be a whole number from 1 to ${MAX_POSTED_WITHIN_HOURS}` }
+    }
+
+    const sortBy = searchParams.get("sortBy") || undefined
+
+    if (sortBy !== undefined && !isSearchSort(sortBy)) {
+        return { error: `Unknown sortBy: ${sortBy}` }
+    }
+
+    return {
+        options: {
+            keywords,
+            location: locations.length > 1 ? locations : locations[0] || "",
+            jobType: searchParams.get("jobType") || "all",
+            datePosted: searchParams.get("datePosted") || "anytime",
+            postedWithinHours,
+            // Sorted so the same selection always shares a cache entry
+            experienceLevels: [...new Set(experienceLevels as ExperienceLevel[])].sort(),
+            workplaceTypes: [...new Set(workplaceTypes as WorkplaceType[])].sort(),
+            distance,
+            sortBy,
+            page: Math.max(1, Number.parseInt(searchParams.get("page") || "1") || 1),
+            depth: Math.min(MAX_CRAWL_DEPTH, Math.max(1, Number.parseInt(searchParams.get("depth") || "1") || 1)),
+            includeDetails: searchParams.get("details") === "true",
+            source,
+            dedupeThreshold,
+        },
+    }
+}
+
+// Filters applied to scraped results, so changing them never triggers a new scrape
+export interface ResultFilters {
+    // Lowest yearly salary to keep, in `salaryCurrency`
+    minSalary?: number
+    // Currency salaries are annualized into and compared in
+    salaryCurrency: CurrencyCode
+    facets: FacetSelections
+    sort: JobSort
+}
+
+export function parseResultFilters(
+    searchParams: URLSearchParams,
+): { filters: ResultFilters; error?: undefined } | { error: string } {
+    const salaryCurrency = (searchParams.get("salaryCurrency") || "USD").toUpperCase()
+
+    if (!isCurrencyCode(salaryCurrency)) {
+        return { error: `Unknown salary currency: ${salaryCurrency}` }
+    }
+
+    const minSalaryParam = searchParams.get("minSalary")
+    const minSalary = minSalaryParam ? Number(minSalaryParam) : undefined
+
+    if (minSalary !== undefined && (!Number.isFinite(minSalary) || minSalary < 0)) {
+        return { error: "minSalary must be a positive number" }
+    }
+
+    const sort = searchParams.get("sort") || "relevance"
+
+    if (!isJobSort(sort)) {
+        return { error: `Unknown sort: ${sort}` }
+    }
+
+    const facets: FacetSelections = {}
+    for (const field of FACET_FIELDS) {
+        const values = searchParams.getAll(facetParam(field)).filter(Boolean)
+        if (values.length > 0) {
+            facets[field] = values
+        }
+    }
+
+    return { filters: { minSalary: minSalary || undefined, salaryCurrency, facets, sort } }
+}
@@ -0,0 +1,98 @@
+export interface SingleFlightStats {
+    // Keys with a run in progress
+    inFlight: number
+    // Runs started since the server started
+    started: number
+    // Calls that joined a run already in progress instead of starting their own
+    coalesced: number
+    // Runs aborted because every caller gave up on them
+    cancelled: number
+}
+
+export interface SingleFlight<T> {
+    // Run `fn` for `key`, or wait on the run already in progress for it. Aborting `signal` only
+    // detaches this caller; the run itself is aborted once no caller is left waiting on it.
+    run(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>
+    has(key: string): boolean
+    stats(): SingleFlightStats
+}
+
+interface Flight<T> {
+    promise: Promise<T>
+    controller: AbortController
+    // Callers still waiting; callers without a signal can never leave
+    waiting: number
+}
+
+// Share one in-flight call per key between concurrent callers
+export function createSingleFlight<T>(): SingleFlight<T> {
+    const flights = new Map<string, Flight<T>>()
+    const counts = { started: 0, coalesced: 0, cancelled: 0 }
+
+    const start = (key: string, fn: (signal: AbortSignal) => Promise<T>): Flight<T> => {
+        const controller = new AbortController()
+        const flight: Flight<T> = {
+            promise: Promise.resolve()
+                .then(() => fn(controller.signal))
+                .finally(() => {
+                    if (flights.get(key) === flight) flights.delete(key)
+                }),
+            controller,
+            waiting: 0,
+        }
+
+        // Every caller may have left, so nobody else is guaranteed to handle a failure
+        flight.promise.catch(() => undefined)
+
+        counts.started++
+        flights.set(key, flight)
+        return flight
+    }
+
+    return {
+        run(key, fn, signal) {
+            if (signal?.aborted) return Promise.reject(signal.reason)
+
+            const existing = flights.get(key)
+            if (existing) counts.coalesced++
+
+            const flight = existing ?? start(key, fn)
+            flight.waiting++
+
+            if (!signal) return flight.promise
+
+            return new Promise<T>((resolve, reject) => {
+                const leave = () => {
+                    flight.waiting--
+                    reject(signal.reason)
+
+                    // Nobody wants the result any more; later callers start a fresh run
+                    if (flight.waiting === 0 && flights.get(key) === flight) {
+                        counts.cancelled++
+                        flights.delete(key)
+                        flight.controller.abort(signal.reason)
+                    }
+                }
+
+                signal.addEventListener("abort", leave, { once: true })
+
+                flight.promise.then(
+                    (value) => {
+                        signal.removeEventListener("abort", leave)
+                        resolve(value)
+                    },
+                    (err) => {
+                        signal.removeEventListener("abort", leave)
+                        reject(err)
+                    },
+                )
+            })
+        },
+        has(key) {
+            return flights.has(key)
+        },
+        stats() {
+            return { inFlight: flights.size, ...counts }
+        },
+    }
+}
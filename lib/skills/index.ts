@@ -0,0 +1,123 @@
+import { defaultSkillTaxonomy, type SkillDefinition } from "./taxonomy"
+
+export { defaultSkillTaxonomy, extendSkillTaxonomy } from "./taxonomy"
+export type { SkillCategory, SkillDefinition } from "./taxonomy"
+
+export interface ExtractedSkill {
+    name: string
+    category: SkillDefinition["category"]
+    // 0-1, higher when the skill is in the title or mentioned repeatedly
+    confidence: number
+    titleMentions: number
+    descriptionMentions: number
+}
+
+export interface SkillExtractionInput {
+    title: string
+    description?: string
+}
+
+export interface SkillExtractionOptions {
+    taxonomy?: SkillDefinition[]
+    // Keep at most this many skills
+    limit?: number
+    minConfidence?: number
+}
+
+// A title mention counts as much as three description mentions
+const TITLE_WEIGHT = 3
+const DESCRIPTION_WEIGHT = 1
+// Repeating a skill in the description stops adding confidence after this many mentions
+const MAX_DESCRIPTION_MENTIONS = 3
+// Score at which a skill reaches full confidence
+const FULL_CONFIDENCE_SCORE = 4
+
+// Characters that continue a token, so "Java" does not match inside "JavaScript" and "C" not inside "C#"
+const TOKEN_CHARS = "A-Za-z0-9+#"
+// A dot also joins tokens on the left, so "JS" does not match inside "Node.js"
+const LEADING_TOKEN_CHARS = `${TOKEN_CHARS}.`
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Compile one regular expression per skill for case-insensitive and one for exact spellings
+function compileMatchers(skill: SkillDefinition): RegExp[] {
+    const exact = skill.caseSensitiveAliases || []
+    const insensitive = [skill.name, ...(skill.aliases || [])].filter((alias) => !exact.includes(alias))
+
+    const toPattern = (aliases: string[]) =>
+        `(?<![${LEADING_TOKEN_CHARS}])(?:${[...aliases]
+            // Longest first, so "Google Cloud Platform" wins over "Google Cloud"
+            .sort((a, b) => b.length - a.length)
+            .map(escapeRegExp)
+            .join("|")})(?![${TOKEN_CHARS}])`
+
+    return [
+        ...(insensitive.length > 0 ? [new RegExp(toPattern(insensitive), "gi")] : []),
+        ...(exact.length > 0 ? [new RegExp(toPattern(exact), "g")] : []),
+    ]
+}
+
+const matcherCache = new WeakMap<SkillDefinition, RegExp[]>()
+
+function getMatchers(skill: SkillDefinition): RegExp[] {
+    let matchers = matcherCache.get(skill)
+    if (!matchers) {
+        matchers = compileMatchers(skill)
+        matcherCache.set(skill, matchers)
+    }
+    return matchers
+}
+
+// Count the places where any spelling of the skill appears, so "Apache Spark" is one mention and not two
+function countMentions(skill: SkillDefinition, text: string): number {
+    const ranges = getMatchers(skill)
+        .flatMap((matcher) => Array.from(text.matchAll(matcher), (match) => [match.index, match.index + match[0].length]))
+        .sort((a, b) => a[0] - b[0] || b[1] - a[1])
+
+    let mentions = 0
+    let coveredUntil = -1
+
+    for (const [start, end] of ranges) {
+        if (start >= coveredUntil) {
+            mentions++
+            coveredUntil = end
+        }
+    }
+
+    return mentions
+}
+
+// Match the skill taxonomy against a posting and rank the skills it mentions
+export function extractSkills(
+    { title, description = "" }: SkillExtractionInput,
+    { taxonomy = defaultSkillTaxonomy, limit, minConfidence = 0 }: SkillExtractionOptions = {},
+): ExtractedSkill[] {
+    const skills = taxonomy
+        .map((skill, order) => {
+            const titleMentions = countMentions(skill, title)
+            const descriptionMentions = countMentions(skill, description)
+            const score =
+                titleMentions * TITLE_WEIGHT +
+                Math.min(descriptionMentions, MAX_DESCRIPTION_MENTIONS) * DESCRIPTION_WEIGHT
+
+            return {
+                order,
+                score,
+                skill: {
+                    name: skill.name,
+                    category: skill.category,
+                    confidence: Math.round(Math.min(1, score / FULL_CONFIDENCE_SCORE) * 100) / 100,
+                    titleMentions,
+                    descriptionMentions,
+                },
+            }
+        })
+        .filter(({ score, skill }) => score > 0 && skill.confidence >= minConfidence)
+        // Highest score first, taxonomy order breaks ties
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .map(({ skill }) => skill)
+
+    return limit === undefined ? skills : skills.slice(0, limit)
+}
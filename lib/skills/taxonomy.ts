@@ -0,0 +1,144 @@
+export interface SkillDefinition {
+    // Canonical name shown on job cards
+    name: string
+    category: SkillCategory
+    // Alternative spellings, matched case-insensitively
+    aliases?: string[]
+    // Spellings that are ordinary English words in other cases ("Go", "Swift"), matched exactly.
+    // List the canonical name here too when it should only match with its exact casing.
+    caseSensitiveAliases?: string[]
+}
+
+export type SkillCategory =
+    | "language"
+    | "frontend"
+    | "backend"
+    | "mobile"
+    | "data"
+    | "database"
+    | "cloud"
+    | "devops"
+    | "testing"
+    | "tooling"
+
+// Bundled skill taxonomy. Extend it with `extendSkillTaxonomy` rather than editing call sites.
+export const defaultSkillTaxonomy: SkillDefinition[] = [
+    // Languages
+    { name: "JavaScript", category: "language", aliases: ["JS", "ECMAScript", "ES6"] },
+    { name: "TypeScript", category: "language", aliases: ["TS"] },
+    { name: "Python", category: "language", aliases: ["Python 3", "Python3"] },
+    { name: "Java", category: "language" },
+    { name: "Kotlin", category: "language" },
+    { name: "C#", category: "language", aliases: ["C Sharp", "CSharp"] },
+    { name: "C++", category: "language", aliases: ["CPP"] },
+    { name: "Go", category: "language", aliases: ["Golang"], caseSensitiveAliases: ["Go"] },
+    { name: "Rust", category: "language", caseSensitiveAliases: ["Rust"] },
+    { name: "Ruby", category: "language" },
+    { name: "PHP", category: "language" },
+    { name: "Scala", category: "language" },
+    { name: "Swift", category: "language", caseSensitiveAliases: ["Swift"] },
+    { name: "Bash", category: "language", aliases: ["Shell scripting"] },
+    { name: "SQL", category: "language" },
+    { name: "HTML", category: "language", aliases: ["HTML5"] },
+    { name: "CSS", category: "language", aliases: ["CSS3"] },
+
+    // Frontend
+    { name: "React", category: "frontend", aliases: ["React.js", "ReactJS"], caseSensitiveAliases: ["React"] },
+    { name: "Next.js", category: "frontend", aliases: ["NextJS"] },
+    { name: "Vue", category: "frontend", aliases: ["Vue.js", "VueJS"] },
+    { name: "Angular", category: "frontend", aliases: ["AngularJS"] },
+    { name: "Svelte", category: "frontend", aliases: ["SvelteKit"] },
+    { name: "Tailwind CSS", category: "frontend", aliases: ["Tailwind", "TailwindCSS"] },
+    { name: "Redux", category: "frontend" },
+
+    // Backend
+    { name: "Node.js", category: "backend", aliases: ["NodeJS"], caseSensitiveAliases: ["Node"] },
+    { name: "Express", category: "backend", aliases: ["Express.js", "ExpressJS"], caseSensitiveAliases: ["Express"] },
+    { name: "Django", category: "backend" },
+    { name: "Flask", category: "backend" },
+    { name: "FastAPI", category: "backend" },
+    { name: "Spring", category: "backend", aliases: ["Spring Boot"], caseSensitiveAliases: ["Spring"] },
+    { name: ".NET", category: "backend", aliases: ["dotnet", "ASP.NET", ".NET Core"] },
+    { name: "Ruby on Rails", category: "backend", aliases: ["Rails", "RoR"] },
+    { name: "GraphQL", category: "backend" },
+    { name: "REST APIs", category: "backend", aliases: ["RESTful", "REST API"], caseSensitiveAliases: ["REST"] },
+    { name: "Microservices", category: "backend", aliases: ["Microservice"] },
+    { name: "Kafka", category: "backend", aliases: ["Apache Kafka"] },
+    { name: "RabbitMQ", category: "backend" },
+
+    // Mobile
+    { name: "iOS", category: "mobile" },
+    { name: "Android", category: "mobile" },
+    { name: "React Native", category: "mobile" },
+    { name: "Flutter", category: "mobile" },
+
+    // Data
+    { name: "Apache Spark", category: "data", aliases: ["PySpark"], caseSensitiveAliases: ["Spark"] },
+    { name: "Airflow", category: "data", aliases: ["Apache Airflow"] },
+    { name: "dbt", category: "data" },
+    { name: "Pandas", category: "data" },
+    { name: "Machine Learning", category: "data", aliases: ["ML"] },
+    { name: "TensorFlow", category: "data" },
+    { name: "PyTorch", category: "data" },
+    { name: "Snowflake", category: "data" },
+    { name: "BigQuery", category: "data" },
+
+    // Databases
+    { name: "PostgreSQL", category: "database", aliases: ["Postgres"] },
+    { name: "MySQL", category: "database" },
+    { name: "MongoDB", category: "database", aliases: ["Mongo"] },
+    { name: "Redis", category: "database" },
+    { name: "Elasticsearch", category: "database", aliases: ["Elastic Search"] },
+    { name: "SQL Server", category: "database", aliases: ["MSSQL"] },
+    { name: "DynamoDB", category: "database" },
+
+    // Cloud
+    { name: "AWS", category: "cloud", aliases: ["Amazon Web Services"] },
+    { name: "Azure", category: "cloud", aliases: ["Microsoft Azure"] },
+    { name: "GCP", category: "cloud", aliases: ["Google Cloud", "Google Cloud Platform"] },
+
+    // DevOps
+    { name: "Docker", category: "devops" },
+    { name: "Kubernetes", category: "devops", aliases: ["k8s"] },
+    { name: "Terraform", category: "devops" },
+    { name: "Helm", category: "devops", caseSensitiveAliases: ["Helm"] },
+    { name: "Ansible", category: "devops" },
+    { name: "CI/CD", category: "devops", aliases: ["CI / CD", "Continuous Integration", "Continuous Delivery"] },
+    { name: "GitHub Actions", category: "devops" },
+    { name: "Jenkins", category: "devops" },
+    { name: "Prometheus", category: "devops" },
+    { name: "Grafana", category: "devops" },
+    { name: "Linux", category: "devops" },
+
+    // Testing
+    { name: "Jest", category: "testing" },
+    { name: "Cypress", category: "testing" },
+    { name: "Playwright", category: "testing" },
+    { name: "Selenium", category: "testing" },
+
+    // Tooling
+    { name: "Git", category: "tooling" },
+    { name: "Jira", category: "tooling" },
+]
+
+// Add skills to a taxonomy, or extend the aliases of skills it already has
+export function extendSkillTaxonomy(base: SkillDefinition[], additions: SkillDefinition[]): SkillDefinition[] {
+    const merged = new Map(base.map((skill) => [skill.name.toLowerCase(), { ...skill }]))
+
+    for (const addition of additions) {
+        const key = addition.name.toLowerCase()
+        const existing = merged.get(key)
+
+        if (existing) {
+            merged.set(key, {
+                ...existing,
+                aliases: [...(existing.aliases || []), ...(addition.aliases || [])],
+                caseSensitiveAliases: [...(existing.caseSensitiveAliases || []), ...(addition.caseSensitiveAliases || [])],
+            })
+        } else {
+            merged.set(key, addition)
+        }
+    }
+
+    return Array.from(merged.values())
+}
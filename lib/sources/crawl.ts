@@ -0,0 +1,64 @@
+import type { Job, SingleLocationScrapeOptions } from "@/types/job"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import type { JobSource } from "./types"
+
+// Never crawl more than this many result pages in one search
+export const MAX_CRAWL_DEPTH = 5
+
+// Background scrapes are not bound by a request timeout, so they may crawl this deep
+export const MAX_BACKGROUND_CRAWL_DEPTH = 20
+
+// Result pages fetched at the same time during a deep crawl
+const MAX_CONCURRENT_PAGES = 2
+
+export interface CrawlHooks {
+    // Stops the crawl before the next page is fetched
+    signal?: AbortSignal
+    // Called with each page's jobs as soon as it is parsed, leaving out jobs an earlier call already had
+    onPage?: (jobs: Job[], page: number) => void
+}
+
+export interface CrawlResult {
+    jobs: Job[]
+    pagesCrawled: number
+}
+
+// Fetch `depth` consecutive result pages starting at `page` and merge them in page order
+export async function crawlJobSource(
+    source: JobSource,
+    options: SingleLocationScrapeOptions,
+    { signal, onPage }: CrawlHooks = {},
+): Promise<CrawlResult> {
+    const firstPage = Math.max(1, options.page || 1)
+    // Callers check depth against their own limit; this only guards against unchecked options
+    const depth = Math.min(MAX_BACKGROUND_CRAWL_DEPTH, Math.max(1, options.depth || 1))
+    const pages = Array.from({ length: depth }, (_, i) => firstPage + i)
+    // Pages can finish out of order, so this only keeps progress updates free of repeats
+    const reportedIds = new Set<string>()
+
+    const pageResults = await mapWithConcurrency(pages, MAX_CONCURRENT_PAGES, async (page) => {
+        signal?.throwIfAborted()
+        const query = source.buildQuery({ ...options, page })
+        const html = await source.fetch(query)
+        const jobs = source.parse(html, query)
+
+        if (onPage) {
+            onPage(
+                jobs.filter((job) => !reportedIds.has(job.id) && reportedIds.add(job.id)),
+                page,
+            )
+        }
+
+        return jobs
+    })
+
+    // Later pages can repeat listings that shifted while crawling, so keep the first copy
+    const seenIds = new Set<string>()
+    const jobs = pageResults.flat().filter((job) => {
+        if (seenIds.has(job.id)) return false
+        seenIds.add(job.id)
+        return true
+    })
+
+    return { jobs, pagesCrawled: pages.length }
+}
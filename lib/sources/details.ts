@@ -0,0 +1,90 @@
+import type { Job, JobDetails } from "@/types/job"
+import { createCache } from "@/lib/cache"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import type { JobSource } from "./types"
+
+// Postings change rarely, so keep their details for 6 hours
+const DETAIL_CACHE_TIME = 6 * 60 * 60 * 1000 // 6 hours
+
+// Job postings opened at the same time during the detail pass
+const MAX_CONCURRENT_DETAILS = 3
+
+// Details cached per job ID, which already names the source
+const detailCache = createCache<JobDetails>({
+    namespace: "details",
+    ttl: DETAIL_CACHE_TIME,
+    maxEntries: 5000,
+})
+
+// A source that implements the optional detail methods
+type DetailSource = Required<Pick<JobSource, "fetchDetails" | "parseDetails">>
+
+function supportsDetails(source: JobSource): source is JobSource & DetailSource {
+    return !!source.fetchDetails && !!source.parseDetails
+}
+
+async function getJobDetails(source: DetailSource, job: Job): Promise<JobDetails> {
+    const cachedDetails = await detailCache.get(job.id)
+    if (cachedDetails) {
+        return cachedDetails.value
+    }
+
+    const html = await source.fetchDetails(job)
+    const details = source.parseDetails(html)
+
+    await detailCache.set(job.id, details)
+
+    return details
+}
+
+export interface EnrichHooks {
+    // Stops the pass before the next posting is opened
+    signal?: AbortSignal
+    // Called after each posting is handled, whether or not it loaded
+    onProgress?: (done: number, total: number) => void
+}
+
+// Replace card data with the full posting for every job the source can open
+export async function enrichJobDetails(
+    source: JobSource,
+    jobs: Job[],
+    { signal, onProgress }: EnrichHooks = {},
+): Promise<Job[]> {
+    if (!supportsDetails(source)) {
+        return jobs
+    }
+
+    let done = 0
+
+    return mapWithConcurrency(jobs, MAX_CONCURRENT_DETAILS, async (job) => {
+        signal?.throwIfAborted()
+        const enriched = await enrichJob(source, job)
+        onProgress?.(++done, jobs.length)
+        return enriched
+    })
+}
+
+// Card data replaced with the posting's, or left as is when the posting fails to load
+async function enrichJob(source: DetailSource, job: Job): Promise<Job> {
+    if (job.url === "#") return job
+
+    try {
+        const details = await getJobDetails(source, job)
+
+        return {
+            ...job,
+            description: details.description || job.description,
+            descriptionHtml: details.descriptionHtml,
+            // The posting states the employment type, so prefer it over the title guess
+            jobType: details.employmentType || job.jobType,
+            employmentType: details.employmentType,
+            seniorityLevel: details.seniorityLevel,
+            industries: details.industries,
+            jobFunctions: details.jobFunctions,
+        }
+    } catch (err) {
+        // A posting that fails to load keeps its search card data
+        console.error(`Failed to fetch details for ${job.url}:`, err)
+        return job
+    }
+}
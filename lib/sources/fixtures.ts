@@ -0,0 +1,62 @@
+import { readFile } from "fs/promises"
+import path from "path"
+import type { Job, JobDetails, SingleLocationScrapeOptions } from "@/types/job"
+import { linkedInJobIdFromUrl, parseLinkedInJobDetailHtml, parseLinkedInSearchHtml } from "./linkedin-parser"
+import type { JobSource, JobSourceQuery } from "./types"
+
+// Saved LinkedIn search pages live here unless JOB_FIXTURES_DIR points elsewhere
+const FIXTURES_DIR = process.env.JOB_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "linkedin")
+
+// Fixture used when no file matches the keywords
+const DEFAULT_FIXTURE = "default"
+
+// "Senior React Developer" -> "senior-react-developer"
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+}
+
+// Page 1 is "<name>.html", later pages are "<name>-page-<n>.html"
+function fixtureFileName(name: string, page = 1): string {
+    return page > 1 ? `${name}-page-${page}.html` : `${name}.html`
+}
+
+// Saved HTML pages on disk, so the app and API run offline and in CI
+export const fixtureSource: JobSource = {
+    id: "fixtures",
+    label: "Saved fixtures",
+    buildQuery(options: SingleLocationScrapeOptions): JobSourceQuery {
+        return { target: path.join(FIXTURES_DIR, fixtureFileName(slugify(options.keywords), options.page)), options }
+    },
+    async fetch(query: JobSourceQuery): Promise<string> {
+        try {
+            return await readFile(query.target, "utf8")
+        } catch {
+            // Fall back to the default pages when there is no fixture for these keywords
+            try {
+                return await readFile(path.join(FIXTURES_DIR, fixtureFileName(DEFAULT_FIXTURE, query.options.page)), "utf8")
+            } catch (err) {
+                // Running out of saved pages means there are no more results
+                if (query.options.page && query.options.page > 1) return ""
+                throw err
+            }
+        }
+    },
+    parse(html: string): Job[] {
+        return parseLinkedInSearchHtml(html, "fixtures")
+    },
+    // Postings are saved as "jobs/<linkedin job id>.html"
+    async fetchDetails(job: Job): Promise<string> {
+        const linkedInJobId = linkedInJobIdFromUrl(job.url)
+        if (!linkedInJobId) {
+            throw new Error(`No fixture posting for ${job.url}`)
+        }
+
+        return readFile(path.join(FIXTURES_DIR, "jobs", `${linkedInJobId}.html`), "utf8")
+    },
+    parseDetails(html: string): JobDetails {
+        return parseLinkedInJobDetailHtml(html)
+    },
+}
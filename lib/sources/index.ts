@@ -0,0 +1,23 @@
+import { fixtureSource } from "./fixtures"
+import { linkedInSource } from "./linkedin"
+import type { JobSource, JobSourceId } from "./types"
+
+export { crawlJobSource, MAX_BACKGROUND_CRAWL_DEPTH, MAX_CRAWL_DEPTH } from "./crawl"
+export { enrichJobDetails } from "./details"
+export type { JobSource, JobSourceId, JobSourceQuery } from "./types"
+
+const jobSources: Record<JobSourceId, JobSource> = {
+    linkedin: linkedInSource,
+    fixtures: fixtureSource,
+}
+
+// JOB_SOURCE=fixtures runs the whole app against saved pages
+export const DEFAULT_JOB_SOURCE: JobSourceId = isJobSourceId(process.env.JOB_SOURCE) ? process.env.JOB_SOURCE : "linkedin"
+
+export function isJobSourceId(value: string | undefined | null): value is JobSourceId {
+    return !!value && Object.prototype.hasOwnProperty.call(jobSources, value)
+}
+
+export function getJobSource(id: JobSourceId = DEFAULT_JOB_SOURCE): JobSource {
+    return jobSources[id]
+}
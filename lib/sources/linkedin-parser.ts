@@ -0,0 +1,243 @@
+import { load, type CheerioAPI } from "cheerio"
+import type { Job, JobDetails } from "@/types/job"
+import { createJobId } from "@/lib/job-id"
+import { normalizePostedDate } from "@/lib/dates"
+import { BlockedOrLoginWallError, LayoutChangedError } from "@/lib/scrape-errors"
+import {
+    DETAIL_STRATEGY,
+    LOGIN_WALL_SELECTORS,
+    MAX_MISSING_FIELD_RATIO,
+    NO_RESULTS_SELECTORS,
+    SEARCH_STRATEGIES,
+    describeStrategy,
+    type SearchExtractionStrategy,
+} from "./linkedin-strategies"
+
+const LINKEDIN_ORIGIN = "https://www.linkedin.com"
+
+// Resolve relative links against LinkedIn, since saved pages may not contain absolute URLs
+function absoluteUrl(href: string | undefined): string | undefined {
+    if (!href) return undefined
+
+    try {
+        return new URL(href, LINKEDIN_ORIGIN).toString()
+    } catch {
+        return undefined
+    }
+}
+
+// Industry names that contain a comma themselves, so they must not be split
+const compoundIndustries = ["Technology, Information and Internet", "Technology, Information and Media"]
+
+// Read the numeric LinkedIn job ID from a posting URL such as /jobs/view/senior-engineer-at-acme-3912345601
+export function linkedInJobIdFromUrl(url: string): string | undefined {
+    return url.match(/\/jobs\/view\/(?:[^/?]*-)?(\d+)(?:[/?]|$)/)?.[1]
+}
+
+// Pick LinkedIn's job ID from data-entity-urn="urn:li:jobPosting:<id>", then data-job-id, then the job URL
+function linkedInJobIdFromCard(
+    entityUrn: string | undefined,
+    dataJobId: string | undefined,
+    url: string | undefined,
+): string | undefined {
+    const urnId = entityUrn?.match(/^urn:li:jobPosting:(\d+)$/)?.[1]
+    if (urnId) return urnId
+
+    if (dataJobId && /^\d+$/.test(dataJobId.trim())) return dataJobId.trim()
+
+    return url ? linkedInJobIdFromUrl(url) : undefined
+}
+
+// Keep paragraph and list breaks when turning description HTML into plain text
+function htmlToText(html: string): string {
+    const $ = load(html.replace(/<br\s*\/?>/gi, "\n").replace(/<\/(p|li|ul|ol|h\d|div)>/gi, "\n"))
+
+    return $.root()
+        .text()
+        .split("\n")
+        .map((line) => line.replace(/\s+/g, " ").trim())
+        .filter(Boolean)
+        .join("\n")
+}
+
+// "Software Development, IT Services and IT Consulting" -> ["Software Development", "IT Services and IT Consulting"]
+function splitCriteria(value: string): string[] {
+    const compounds = compoundIndustries.filter((name) => value.includes(name))
+    const rest = compounds.reduce((remaining, name) => remaining.replace(name, ""), value)
+
+    return [
+        ...compounds,
+        ...rest
+            .split(",")
+            .map((part) => part.trim())
+            .filter(Boolean),
+    ]
+}
+
+// Parse a LinkedIn job posting page into job details
+export function parseLinkedInJobDetailHtml(html: string): JobDetails {
+    const $ = load(html)
+    const strategy = DETAIL_STRATEGY
+
+    const descriptionHtml = ($(strategy.description).first().html() || "").trim()
+
+    const criteria = new Map<string, string>()
+    $(strategy.criteriaItem).each((_, element) => {
+        const label = $(element).find(strategy.criteriaLabel).text().trim().toLowerCase()
+        const value = $(element).find(strategy.criteriaValue).text().trim()
+        if (label && value) {
+            criteria.set(label, value)
+        }
+    })
+
+    return {
+        description: htmlToText(descriptionHtml),
+        descriptionHtml,
+        employmentType: criteria.get("employment type"),
+        seniorityLevel: criteria.get("seniority level"),
+        industries: splitCriteria(criteria.get("industries") || ""),
+        jobFunctions: splitCriteria(criteria.get("job function") || ""),
+    }
+}
+
+// Title, company, location and link; a card without them shows placeholders
+const REQUIRED_FIELD_COUNT = 4
+
+// The jobs one strategy read from a page, and the share of required fields it could not find
+interface SearchExtraction {
+    strategy: SearchExtractionStrategy
+    jobs: Job[]
+    missingFieldRatio: number
+}
+
+// Read the page's cards with one strategy, or undefined when none of its card selectors match
+function extractSearchJobs(
+    $: CheerioAPI,
+    strategy: SearchExtractionStrategy,
+    sourceId: string,
+    scrapedAt: Date,
+): SearchExtraction | undefined {
+    const cardSelector = strategy.cards.find((candidate) => $(candidate).length > 0)
+    if (!cardSelector) return undefined
+
+    const { fields } = strategy
+    let missingFields = 0
+
+    const jobs = $(cardSelector)
+        .toArray()
+        .map((element) => {
+            const job = $(element)
+
+            const titleElement = job.find(fields.title).first()
+            const companyElement = job.find(fields.company).first()
+            const locationElement = job.find(fields.location).first()
+            const linkElement = job.find(fields.link).first()
+            const logoElement = job.find(fields.logo).first()
+            const salaryElement = job.find(fields.salary).first()
+            const dateElement = job.find(fields.date).first()
+
+            // Generate a job type based on the title
+            const title = titleElement.text().trim()
+            let jobType = "Full-time"
+
+            if (title.toLowerCase().includes("part-time") || title.toLowerCase().includes("part time")) {
+                jobType = "Part-time"
+            } else if (title.toLowerCase().includes("contract")) {
+                jobType = "Contract"
+            } else if (title.toLowerCase().includes("intern")) {
+                jobType = "Internship"
+            } else if (title.toLowerCase().includes("remote")) {
+                jobType = "Remote"
+            }
+
+            const foundLocation = locationElement.text().trim()
+            const foundCompany = companyElement.text().trim()
+            const location = foundLocation || "Unknown Location"
+            const company = foundCompany || "Unknown Company"
+            const url = absoluteUrl(linkElement.attr("href"))
+            // The ID attributes sit on the card itself or on a wrapper inside the list item
+            const entityUrn = job.attr("data-entity-urn") || job.find("[data-entity-urn]").first().attr("data-entity-urn")
+            const dataJobId = job.attr("data-job-id") || job.find("[data-job-id]").first().attr("data-job-id")
+            const datePosted = dateElement.text().trim()
+            const posted = normalizePostedDate({ datetime: dateElement.attr("datetime"), text: datePosted }, scrapedAt)
+
+            missingFields += [title, foundCompany, foundLocation, url].filter((value) => !value).length
+
+            return {
+                id: createJobId(sourceId, {
+                    externalId: linkedInJobIdFromCard(entityUrn, dataJobId, url),
+                    title,
+                    company,
+                    location,
+                }),
+                title: title || "Unknown Position",
+                company,
+                location: location,
+                jobType,
+                datePosted: datePosted || "Recently posted",
+                postedAt: posted.postedAt,
+                postedAtConfidence: posted.confidence,
+                description:
+                    "This position requires expertise in various technologies. Click to view the full job description.",
+                url: url || "#",
+                salary: salaryElement.text().replace(/\s+/g, " ").trim() || undefined,
+                // LinkedIn lazy loads logos, so the real URL often lives in data-delayed-url
+                logoUrl: absoluteUrl(logoElement.attr("src") || logoElement.attr("data-delayed-url")),
+            }
+        })
+
+    return {
+        strategy,
+        jobs,
+        missingFieldRatio: jobs.length > 0 ? missingFields / (jobs.length * REQUIRED_FIELD_COUNT) : 0,
+    }
+}
+
+// Parse a LinkedIn job search results page into jobs, with IDs scoped to the source that fetched it.
+// Relative dates such as "2 days ago" are resolved against `scrapedAt`. Throws when LinkedIn showed a
+// sign-in page, or when the page no longer looks like any known layout instead of returning empty or
+// placeholder rows.
+export function parseLinkedInSearchHtml(html: string, sourceId: string, scrapedAt = new Date()): Job[] {
+    // Running out of saved pages or results leaves nothing to read
+    if (!html.trim()) return []
+
+    const $ = load(html)
+
+    // Read the page with every strategy that finds cards on it and keep the most complete reading
+    const [best] = SEARCH_STRATEGIES.flatMap((strategy) => extractSearchJobs($, strategy, sourceId, scrapedAt) ?? []).sort(
+        (a, b) => a.missingFieldRatio - b.missingFieldRatio,
+    )
+
+    if (!best) {
+        // Guest pages with results can carry a sign-in modal too, so a form only counts as a wall without cards
+        if (LOGIN_WALL_SELECTORS.some((selector) => $(selector).length > 0)) {
+            throw new BlockedOrLoginWallError("LinkedIn showed a sign-in page instead of search results")
+        }
+
+        const emptyResults = [
+            ...SEARCH_STRATEGIES.flatMap((strategy) => strategy.resultLists),
+            ...NO_RESULTS_SELECTORS,
+        ].some((selector) => $(selector).length > 0)
+        if (emptyResults) return []
+
+        const tried = SEARCH_STRATEGIES.map(describeStrategy).join(", ")
+        console.error(`Probable LinkedIn layout change: no result cards found with ${tried}`)
+        throw new LayoutChangedError(`No job cards found on the search page with extraction strategies ${tried}`)
+    }
+
+    const strategy = describeStrategy(best.strategy)
+    const missingPercent = Math.round(best.missingFieldRatio * 100)
+
+    if (best.missingFieldRatio > MAX_MISSING_FIELD_RATIO) {
+        console.error(
+            `Probable LinkedIn layout change: ${strategy} could not read ${missingPercent}% of the fields on ${best.jobs.length} cards`,
+        )
+        throw new LayoutChangedError(
+            `Extraction strategy ${strategy} could not read ${missingPercent}% of the fields on the search page`,
+        )
+    }
+
+    console.log(`Parsed ${best.jobs.length} job cards with ${strategy}, ${missingPercent}% of fields missing`)
+
+    return best.jobs
+}
@@ -0,0 +1,93 @@
+// How to read LinkedIn's markup. When LinkedIn changes a page, add a strategy or bump the version of the one
+// that changed, so logs show which rules were in use when a page stopped parsing.
+
+export interface SearchExtractionStrategy {
+    name: string
+    version: number
+    // Lists that hold the result cards; a list that is present but empty means there are no results
+    resultLists: string[]
+    // Result cards, tried in order until one matches
+    cards: string[]
+    // Selectors for each field, looked up inside a card
+    fields: {
+        title: string
+        company: string
+        location: string
+        link: string
+        logo: string
+        salary: string
+        date: string
+    }
+}
+
+export interface DetailExtractionStrategy {
+    name: string
+    version: number
+    description: string
+    // The criteria list holds pairs like "Seniority level" / "Mid-Senior level"
+    criteriaItem: string
+    criteriaLabel: string
+    criteriaValue: string
+}
+
+// Tried in order; the one that reads the most fields from a page wins
+export const SEARCH_STRATEGIES: SearchExtractionStrategy[] = [
+    // The public search page served to visitors who are not signed in
+    {
+        name: "guest-search",
+        version: 1,
+        resultLists: [".jobs-search__results-list"],
+        cards: [".jobs-search__results-list > li"],
+        fields: {
+            title: ".base-search-card__title",
+            company: ".base-search-card__subtitle",
+            location: ".job-search-card__location",
+            link: "a.base-card__full-link",
+            logo: ".artdeco-entity-image",
+            salary: ".job-search-card__salary-info",
+            date: "time.job-search-card__listdate",
+        },
+    },
+    // The search page for signed in members, which saved pages sometimes come from
+    {
+        name: "member-search",
+        version: 1,
+        resultLists: [".jobs-search-results-list"],
+        cards: [".jobs-search-results-list > li", "[data-job-id]"],
+        fields: {
+            title: ".job-card-list__title, .job-card-container__link",
+            company: ".job-card-container__company-name, .job-card-container__primary-description",
+            location: ".job-card-container__metadata-item, .job-card-container__metadata-wrapper span",
+            link: "a.job-card-list__title, a.job-card-container__link",
+            logo: ".job-card-container__company-logo",
+            salary: ".job-search-card__salary-info",
+            date: ".job-card-container__posted-date, .job-card-container__metadata-item--posted-date",
+        },
+    },
+]
+
+export const DETAIL_STRATEGY: DetailExtractionStrategy = {
+    name: "guest-posting",
+    version: 1,
+    description: ".show-more-less-html__markup, .description__text",
+    criteriaItem: ".description__job-criteria-item",
+    criteriaLabel: ".description__job-criteria-subheader",
+    criteriaValue: ".description__job-criteria-text",
+}
+
+// Banners LinkedIn shows instead of a result list when nothing matches
+export const NO_RESULTS_SELECTORS = [".jobs-search-no-results-banner", ".jobs-search-two-pane__no-results-banner--expand"]
+
+// Sign-in forms LinkedIn shows instead of results once it decides the visitor must log in
+export const LOGIN_WALL_SELECTORS = [".authwall-join-form", "form.login__form", "form#join-form", "input#session_key"]
+
+// Paths LinkedIn redirects to when it asks a visitor to sign in or prove they are human
+export const LOGIN_WALL_PATHS = ["/authwall", "/login", "/signup", "/checkpoint"]
+
+// A page whose cards are missing more than this share of their titles, companies, locations and links
+// has probably changed layout
+export const MAX_MISSING_FIELD_RATIO = 0.5
+
+export function describeStrategy({ name, version }: { name: string; version: number }): string {
+    return `${name} v${version}`
+}
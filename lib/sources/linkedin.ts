@@ -0,0 +1,199 @@
+import type { Job, JobDetails, SingleLocationScrapeOptions } from "@/types/job"
+import type { ExperienceLevel, SearchSort, WorkplaceType } from "@/lib/search-filters"
+import { toLinkedInKeywords } from "@/lib/keyword-query"
+import { getBrowserPool } from "@/lib/browser-pool"
+import { BlockedOrLoginWallError, NavigationFailedError, ScrapeTimeoutError } from "@/lib/scrape-errors"
+import { parseLinkedInJobDetailHtml, parseLinkedInSearchHtml } from "./linkedin-parser"
+import { DETAIL_STRATEGY, LOGIN_WALL_PATHS, NO_RESULTS_SELECTORS, SEARCH_STRATEGIES } from "./linkedin-strategies"
+import type { JobSource, JobSourceQuery } from "./types"
+
+// LinkedIn shows 25 jobs per search results page
+export const LINKEDIN_PAGE_SIZE = 25
+
+// Selectors that show a page has rendered its content
+const SEARCH_RESULTS_SELECTOR = [
+    ...SEARCH_STRATEGIES.flatMap((strategy) => strategy.resultLists),
+    ...NO_RESULTS_SELECTORS,
+].join(", ")
+const JOB_DETAIL_SELECTOR = `${DETAIL_STRATEGY.description}, ${DETAIL_STRATEGY.criteriaItem}`
+
+// Statuses LinkedIn answers with when it rate limits a scraper; 999 is its own
+const BLOCKED_STATUSES = [429, 999]
+
+// LinkedIn's codes for the f_E, f_WT and sortBy query parameters
+const experienceLevelCodes: Record<ExperienceLevel, string> = {
+    internship: "1",
+    entry: "2",
+    associate: "3",
+    midSenior: "4",
+    director: "5",
+    executive: "6",
+}
+
+const workplaceTypeCodes: Record<WorkplaceType, string> = {
+    onsite: "1",
+    remote: "2",
+    hybrid: "3",
+}
+
+const sortByCodes: Record<SearchSort, string> = {
+    relevance: "R",
+    recent: "DD",
+}
+
+// Build LinkedIn search URL
+export function buildLinkedInSearchUrl({
+    keywords,
+    location = "",
+    jobType = "all",
+    datePosted = "anytime",
+    postedWithinHours,
+    experienceLevels = [],
+    workplaceTypes = [],
+    distance,
+    sortBy,
+    page = 1,
+}: SingleLocationScrapeOptions): string {
+    let searchUrl = `https://www.linkedin.com/jobs/search/?keywords=${encodeURIComponent(toLinkedInKeywords(keywords))}`
+
+    if (location) {
+        searchUrl += `&location=${encodeURIComponent(location)}`
+    }
+
+    // Add job type filter
+    if (jobType !== "all") {
+        const jobTypeMap: Record<string, string> = {
+            fulltime: "F",
+            parttime: "P",
+            contract: "C",
+            temporary: "T",
+            internship: "I",
+        }
+
+        if (jobTypeMap[jobType]) {
+            searchUrl += `&f_JT=${jobTypeMap[jobType]}`
+        }
+    }
+
+    // Add date posted filter; a custom hour window takes precedence
+    if (postedWithinHours) {
+        searchUrl += `&f_TPR=r${postedWithinHours * 3600}`
+    } else if (datePosted !== "anytime") {
+        const datePostedMap: Record<string, string> = {
+            past24hours: "r86400",
+            pastWeek: "r604800",
+            pastMonth: "r2592000",
+        }
+
+        if (datePostedMap[datePosted]) {
+            searchUrl += `&f_TPR=${datePostedMap[datePosted]}`
+        }
+    }
+
+    // Saved searches and old links may still use the former jobType=remote option
+    if (jobType === "remote" && !workplaceTypes.includes("remote")) {
+        workplaceTypes = [...workplaceTypes, "remote"]
+    }
+
+    // Multiple levels and workplace types are sent comma-separated, e.g. f_WT=2,3
+    if (experienceLevels.length > 0) {
+        searchUrl += `&f_E=${encodeURIComponent(experienceLevels.map((level) => experienceLevelCodes[level]).join(","))}`
+    }
+
+    if (workplaceTypes.length > 0) {
+        searchUrl += `&f_WT=${encodeURIComponent(workplaceTypes.map((type) => workplaceTypeCodes[type]).join(","))}`
+    }
+
+    if (distance && location) {
+        searchUrl += `&distance=${distance}`
+    }
+
+    if (sortBy) {
+        searchUrl += `&sortBy=${sortByCodes[sortBy]}`
+    }
+
+    // Map the page number to LinkedIn's result offset
+    if (page > 1) {
+        searchUrl += `&start=${(page - 1) * LINKEDIN_PAGE_SIZE}`
+    }
+
+    return searchUrl
+}
+
+// Load a page with Playwright (browser automation) in the shared browser pool and return its HTML
+async function fetchWithPlaywright(url: string, readySelector: string): Promise<string> {
+    return getBrowserPool().withPage(async (page) => {
+        // Add a timeout to prevent hanging; the pool closes the page's context when it fires
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const timeoutPromise = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new ScrapeTimeoutError("Scraping timeout after 25 seconds")), 25000)
+        })
+
+        const scrapePromise = (async () => {
+            // Set a shorter timeout for navigation
+            page.setDefaultNavigationTimeout(15000)
+            page.setDefaultTimeout(10000)
+
+            // Navigate to the URL; Playwright's own navigation timeout is left to be classified as a timeout
+            const response = await page.goto(url, { waitUntil: "domcontentloaded" }).catch((err: Error) => {
+                if (err.name === "TimeoutError") throw err
+                throw new NavigationFailedError(`Failed to load ${url}: ${err.message}`, { cause: err })
+            })
+            const status = response?.status() ?? 200
+
+            if (BLOCKED_STATUSES.includes(status)) {
+                throw new BlockedOrLoginWallError(`LinkedIn refused the request with status ${status}`)
+            }
+
+            if (status >= 400) {
+                throw new NavigationFailedError(`LinkedIn returned status ${status} for ${url}`)
+            }
+
+            // Asked to sign in instead of being shown the page
+            const { pathname } = new URL(page.url())
+            if (LOGIN_WALL_PATHS.some((path) => pathname.startsWith(path))) {
+                throw new BlockedOrLoginWallError(`LinkedIn redirected to ${pathname} instead of ${url}`)
+            }
+
+            // Wait for the content to load with a more reliable selector
+            await page.waitForSelector(readySelector, { timeout: 10000 }).catch(() => {
+                console.log("Timeout waiting for page content, will try to extract anyway")
+            })
+
+            // Add a small delay to let dynamic content load
+            await page.waitForTimeout(1000)
+
+            console.log("Page loaded, extracting job data...")
+
+            return await page.content()
+        })()
+
+        // Race the scraping against the timeout
+        try {
+            return await Promise.race([scrapePromise, timeoutPromise])
+        } finally {
+            clearTimeout(timer)
+        }
+    })
+}
+
+// Live LinkedIn search, scraped with a headless browser
+export const linkedInSource: JobSource = {
+    id: "linkedin",
+    label: "LinkedIn",
+    buildQuery(options: SingleLocationScrapeOptions): JobSourceQuery {
+        return { target: buildLinkedInSearchUrl(options), options }
+    },
+    fetch(query: JobSourceQuery): Promise<string> {
+        return fetchWithPlaywright(query.target, SEARCH_RESULTS_SELECTOR)
+    },
+    parse(html: string): Job[] {
+        return parseLinkedInSearchHtml(html, "linkedin")
+    },
+    fetchDetails(job: Job): Promise<string> {
+        return fetchWithPlaywright(job.url, JOB_DETAIL_SELECTOR)
+    },
+    parseDetails(html: string): JobDetails {
+        return parseLinkedInJobDetailHtml(html)
+    },
+}
@@ -0,0 +1,26 @@
+import type { Job, JobDetails, SingleLocationScrapeOptions } from "@/types/job"
+
+// Identifiers of the registered job sources, also accepted by /api/jobs?source=
+export type JobSourceId = "linkedin" | "fixtures"
+
+// Everything a source needs to fetch one result page
+export interface JobSourceQuery {
+    // URL or file path the source will read from
+    target: string
+    options: SingleLocationScrapeOptions
+}
+
+export interface JobSource {
+    id: JobSourceId
+    label: string
+    // Translate search options into a source specific query
+    buildQuery(options: SingleLocationScrapeOptions): JobSourceQuery
+    // Retrieve the raw search results HTML for a query
+    fetch(query: JobSourceQuery): Promise<string>
+    // Turn raw search results HTML into jobs
+    parse(html: string, query: JobSourceQuery): Job[]
+    // Retrieve the raw posting HTML for a single job, for sources that support details
+    fetchDetails?(job: Job): Promise<string>
+    // Turn raw posting HTML into job details
+    parseDetails?(html: string): JobDetails
+}
@@ -0,0 +1,57 @@
+import { randomUUID } from "crypto"
+import { mkdir, readFile, rename, writeFile } from "fs/promises"
+import path from "path"
+
+// Saved data lives here unless JOB_DATA_DIR points elsewhere
+const DATA_DIR = process.env.JOB_DATA_DIR || path.join(process.cwd(), ".data")
+
+export interface JsonStore<T> {
+    read(): Promise<T>
+    // Apply a change and persist it; updates run one after another so none are lost
+    update<R>(change: (data: T) => R | Promise<R>): Promise<R>
+}
+
+// Pending updates per file. Kept on globalThis because instrumentation and each route bundle their own
+// copy of this module, and updates from every copy must wait for each other.
+const globalForStores = globalThis as typeof globalThis & { jsonStoreQueues?: Map<string, Promise<unknown>> }
+const queues = (globalForStores.jsonStoreQueues ??= new Map())
+
+// A JSON document on disk, e.g. `.data/saved-jobs.json`
+export function createJsonStore<T>(name: string, initialValue: () => T): JsonStore<T> {
+    const file = path.join(DATA_DIR, `${name}.json`)
+
+    const read = async (): Promise<T> => {
+        try {
+            return JSON.parse(await readFile(file, "utf8")) as T
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") return initialValue()
+            throw err
+        }
+    }
+
+    const write = async (data: T) => {
+        await mkdir(DATA_DIR, { recursive: true })
+
+        // Write to a temporary file first, so a crash never leaves a half-written store
+        const tempFile = `${file}.${randomUUID()}.tmp`
+        await writeFile(tempFile, JSON.stringify(data, null, 2))
+        await rename(tempFile, file)
+    }
+
+    return {
+        read,
+        update<R>(change: (data: T) => R | Promise<R>) {
+            const result = (queues.get(file) ?? Promise.resolve()).then(async () => {
+                const data = await read()
+                const changeResult = await change(data)
+                await write(data)
+                return changeResult
+            })
+
+            // Keep the queue going even when this update fails
+            queues.set(file, result.catch(() => undefined))
+
+            return result
+        },
+    }
+}
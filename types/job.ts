@@ -1,9 +1,52 @@
+import type { PostedAtConfidence } from "@/lib/dates"
+import type { AnnualSalary, SalaryRange } from "@/lib/salary"
+import type { ExperienceLevel, SearchSort, WorkplaceType } from "@/lib/search-filters"
+
 export interface ScrapeOptions {
     keywords: string
-    location?: string
+    // Several locations are searched separately and merged
+    location?: string | string[]
     jobType?: string
     datePosted?: string
+    // Overrides `datePosted` with a "past N hours" window
+    postedWithinHours?: number
+    // Any of the listed levels or workplace types matches
+    experienceLevels?: ExperienceLevel[]
+    workplaceTypes?: WorkplaceType[]
+    // Search radius around `location`, in miles
+    distance?: number
+    sortBy?: SearchSort
     page?: number
+    // Number of consecutive result pages to crawl, starting at `page`
+    depth?: number
+    // Open every posting and replace card data with the full job details
+    includeDetails?: boolean
+    source?: string
+    // Similarity (0-1) at which postings are merged as duplicates
+    dedupeThreshold?: number
+}
+
+// Options for a single search, as sources receive them once locations are fanned out
+export type SingleLocationScrapeOptions = Omit<ScrapeOptions, "location"> & { location?: string }
+
+// Data read from a job posting page rather than the search results card
+export interface JobDetails {
+    description: string
+    descriptionHtml: string
+    employmentType?: string
+    seniorityLevel?: string
+    industries: string[]
+    jobFunctions: string[]
+}
+
+// A posting merged into another job as a repost, cross-listing or agency copy
+export interface DuplicateJob {
+    id: string
+    title: string
+    company: string
+    location: string
+    url: string
+    postedAt?: string
 }
 
 export interface Job {
@@ -12,10 +55,28 @@ export interface Job {
     company: string
     location: string
     jobType: string
+    // Text shown on the card, e.g. "2 days ago"
     datePosted: string
+    // ISO timestamp normalized from `datePosted` and the card's datetime attribute
+    postedAt?: string
+    postedAtConfidence?: PostedAtConfidence
     description: string
     url: string
     logoUrl?: string
+    // Salary as shown on the card, or formatted from `salaryRange` when it came from the description
     salary?: string
+    salaryRange?: SalaryRange
+    // `salaryRange` per year in the currency the search compares salaries in
+    annualSalary?: AnnualSalary
     skills?: string[]
-}
\ No newline at end of file
+    // Filled in by the detail pass
+    descriptionHtml?: string
+    employmentType?: string
+    seniorityLevel?: string
+    industries?: string[]
+    jobFunctions?: string[]
+    // Near-identical postings folded into this one
+    duplicates?: DuplicateJob[]
+    // Searched locations that returned this job, set by multi-location searches
+    queryLocations?: string[]
+}